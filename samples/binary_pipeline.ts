@@ -0,0 +1,259 @@
+// redis-client/binary-pipeline.ts
+import Redis, { ChainableCommander, Cluster } from 'ioredis';
+import type { RedisSetOptions } from './binary-redis';
+import { commonSlot } from './cluster-keys';
+
+// One per queued operation, in the order they were added
+export type OpResult<T> = { ok: true; value: T } | { ok: false; error: Error };
+
+export type PipelineResults<R extends unknown[]> = { [K in keyof R]: OpResult<R[K]> };
+
+// BinaryRedisClient's value handling, so pipelines encode and decode exactly as its own commands do
+export interface PipelineCodec {
+    encode(key: string, value: unknown): Promise<Buffer>;
+    decode(key: string, buffer: Buffer): Promise<unknown>;       // String values, getOrLoad() entries included
+    decodeMember(key: string, buffer: Buffer): Promise<unknown>; // Hash fields
+}
+
+// EXEC found that a watched key changed, so nothing in the transaction ran
+export class WatchConflictError extends Error {
+    constructor(keys: string[]) {
+        super(`Watched keys changed before the transaction ran: ${keys.join(', ')}`);
+        this.name = 'WatchConflictError';
+    }
+}
+
+interface QueuedOp {
+    values: unknown[]; // Encoded before anything is sent
+    keys: string[];
+    queue(commands: ChainableCommander, encoded: Buffer[]): void;
+    decode(reply: unknown): Promise<unknown>;
+}
+
+// Each method appends to the result tuple, so `exec()` resolves to per-operation results
+// typed in the order they were queued:
+//
+//   const [order, , ttl] = await redis.pipeline().get<Order>(key).set(other, value).pttl(key).exec();
+//
+// In a transaction (multi()) a value that fails to encode aborts the whole EXEC; in a plain
+// pipeline it only fails its own operation. On a cluster a plain pipeline is sent as one batch
+// per hash slot, and a transaction's keys must all share one (see cluster-keys.ts).
+export class BinaryPipeline<R extends unknown[] = []> {
+    private ops: QueuedOp[] = [];
+
+    constructor(
+        private connection: Redis | Cluster,
+        private codec: PipelineCodec,
+        private transaction = false,
+        private watchedKeys: string[] = []
+    ) {}
+
+    get length(): number {
+        return this.ops.length;
+    }
+
+    get<T>(key: string): BinaryPipeline<[...R, T | null]> {
+        return this.add({
+            values: [],
+            keys: [key],
+            queue: commands => commands.getBuffer(key),
+            decode: async reply => reply ? await this.codec.decode(key, reply as Buffer) : null
+        });
+    }
+
+    set<T>(key: string, value: T, options: RedisSetOptions = {}): BinaryPipeline<[...R, 'OK' | null]> {
+        return this.add({
+            values: [value],
+            keys: [key],
+            queue: (commands, [buffer]) => {
+                const args: Array<string | number> = [];
+                if (options.EX) args.push('EX', options.EX);
+                if (options.PX) args.push('PX', options.PX);
+                if (options.NX) args.push('NX');
+                if (options.XX) args.push('XX');
+                commands.call('SET', key, buffer, ...args);
+            },
+            decode: async reply => reply === null ? null : 'OK'
+        });
+    }
+
+    del(...keys: string[]): BinaryPipeline<[...R, number]> {
+        return this.addCommand(keys, commands => commands.del(...keys));
+    }
+
+    exists(...keys: string[]): BinaryPipeline<[...R, number]> {
+        return this.addCommand(keys, commands => commands.exists(...keys));
+    }
+
+    // 1 if the timeout was set, 0 if the key doesn't exist
+    expire(key: string, seconds: number): BinaryPipeline<[...R, number]> {
+        return this.addCommand([key], commands => commands.expire(key, seconds));
+    }
+
+    pexpire(key: string, milliseconds: number): BinaryPipeline<[...R, number]> {
+        return this.addCommand([key], commands => commands.pexpire(key, milliseconds));
+    }
+
+    // -1 without an expiry, -2 if the key doesn't exist
+    ttl(key: string): BinaryPipeline<[...R, number]> {
+        return this.addCommand([key], commands => commands.ttl(key));
+    }
+
+    pttl(key: string): BinaryPipeline<[...R, number]> {
+        return this.addCommand([key], commands => commands.pttl(key));
+    }
+
+    persist(key: string): BinaryPipeline<[...R, number]> {
+        return this.addCommand([key], commands => commands.persist(key));
+    }
+
+    hset<T>(key: string, fields: Record<string, T>): BinaryPipeline<[...R, number]> {
+        const names = Object.keys(fields);
+        return this.add({
+            values: names.map(name => fields[name]),
+            keys: [key],
+            queue: (commands, buffers) => commands.hset(key, ...names.flatMap((name, i) => [name, buffers[i]])),
+            decode: async reply => reply as number
+        });
+    }
+
+    hget<T>(key: string, field: string): BinaryPipeline<[...R, T | null]> {
+        return this.add({
+            values: [],
+            keys: [key],
+            queue: commands => commands.hgetBuffer(key, field),
+            decode: async reply => reply ? await this.codec.decodeMember(key, reply as Buffer) : null
+        });
+    }
+
+    hgetall<T>(key: string): BinaryPipeline<[...R, Record<string, T>]> {
+        return this.add({
+            values: [],
+            keys: [key],
+            queue: commands => commands.hgetallBuffer(key),
+            decode: async reply => {
+                const fields: Record<string, unknown> = {};
+                for (const [field, buffer] of Object.entries(reply as Record<string, Buffer>)) {
+                    fields[field] = await this.codec.decodeMember(key, buffer);
+                }
+                return fields;
+            }
+        });
+    }
+
+    hdel(key: string, ...fields: string[]): BinaryPipeline<[...R, number]> {
+        return this.addCommand([key], commands => commands.hdel(key, ...fields));
+    }
+
+    // Throws WatchConflictError when a WATCHed transaction was discarded
+    async exec(): Promise<PipelineResults<R>> {
+        // Every value is encoded in parallel before the first command is sent
+        const encoded = await Promise.allSettled(this.ops.map(op =>
+            Promise.all(op.values.map(value => {
+                if (value === undefined) {
+                    return Promise.reject(new Error(`No value given for ${op.keys[0]}`));
+                }
+                return this.codec.encode(op.keys[0], value);
+            }))));
+
+        if (this.transaction) {
+            const failed = encoded.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+            if (failed) {
+                throw failed.reason;
+            }
+        }
+
+        // Operations that failed to encode are never sent; the rest are batched by slot on a
+        // cluster, and each batch's replies are put back at their operations' positions
+        const results: OpResult<unknown>[] = new Array(this.ops.length);
+        const batches = new Map<number, number[]>();
+        encoded.forEach((result, i) => {
+            if (result.status === 'rejected') {
+                results[i] = { ok: false, error: asError(result.reason) };
+                return;
+            }
+            const slot = this.connection.isCluster ? commonSlot(this.ops[i].keys) : 0;
+            if (slot === undefined) {
+                results[i] = { ok: false, error: crossSlotError(this.ops[i].keys) };
+            } else {
+                batches.set(slot, [...(batches.get(slot) || []), i]);
+            }
+        });
+
+        if (this.transaction && (batches.size > 1 || results.some(Boolean))) {
+            throw crossSlotError(this.ops.flatMap(op => op.keys));
+        }
+
+        await Promise.all(Array.from(batches.values(), async indexes => {
+            const commands = this.transaction ? this.connection.multi() : this.connection.pipeline();
+            for (const i of indexes) {
+                this.ops[i].queue(commands, (encoded[i] as PromiseFulfilledResult<Buffer[]>).value);
+            }
+
+            const replies = await commands.exec();
+            if (replies === null) {
+                throw new WatchConflictError(this.watchedKeys);
+            }
+            await Promise.all(indexes.map(async (i, n) => {
+                results[i] = await this.settle(this.ops[i], replies[n]);
+            }));
+        }));
+        return results as PipelineResults<R>;
+    }
+
+    private async settle(op: QueuedOp, [error, reply]: [Error | null, unknown]): Promise<OpResult<unknown>> {
+        if (error) {
+            return { ok: false, error };
+        }
+        try {
+            return { ok: true, value: await op.decode(reply) };
+        } catch (decodeError) {
+            return { ok: false, error: asError(decodeError) };
+        }
+    }
+
+    private add<T>(op: QueuedOp): BinaryPipeline<[...R, T]> {
+        this.ops.push(op);
+        return this as unknown as BinaryPipeline<[...R, T]>;
+    }
+
+    private addCommand(keys: string[], queue: (commands: ChainableCommander) => void): BinaryPipeline<[...R, number]> {
+        return this.add({ values: [], keys, queue, decode: async reply => reply as number });
+    }
+}
+
+// Reads inside watch(): they go over the watching connection, so they see what EXEC will check
+export class WatchedTransaction {
+    constructor(private connection: Redis | Cluster, private codec: PipelineCodec, private keys: string[]) {}
+
+    async get<T>(key: string): Promise<T | null> {
+        const buffer = await this.connection.getBuffer(key);
+        return buffer ? await this.codec.decode(key, buffer) as T | null : null;
+    }
+
+    async hget<T>(key: string, field: string): Promise<T | null> {
+        const buffer = await this.connection.hgetBuffer(key, field);
+        return buffer ? await this.codec.decodeMember(key, buffer) as T : null;
+    }
+
+    async hgetall<T>(key: string): Promise<Record<string, T>> {
+        const fields: Record<string, T> = {};
+        for (const [field, buffer] of Object.entries(await this.connection.hgetallBuffer(key))) {
+            fields[field] = await this.codec.decodeMember(key, buffer) as T;
+        }
+        return fields;
+    }
+
+    // The writes to apply if none of the watched keys change first
+    multi(): BinaryPipeline {
+        return new BinaryPipeline(this.connection, this.codec, true, this.keys);
+    }
+}
+
+function crossSlotError(keys: string[]): Error {
+    return new Error(`CROSSSLOT ${keys.join(', ')} hash to different slots; share a hash tag to batch them together`);
+}
+
+function asError(reason: unknown): Error {
+    return reason instanceof Error ? reason : new Error(String(reason));
+}
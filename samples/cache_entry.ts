@@ -0,0 +1,42 @@
+// redis-client/cache-entry.ts
+import { ENVELOPE_MAGIC } from '../shared-libs/serialization/wire-envelope';
+
+// getOrLoad() wraps the codec's bytes in this header so a soft expiry travels with the value.
+// It shares the wire envelope's magic byte but uses a version readEnvelope() rejects, so
+// neither can be mistaken for the other or for legacy MessagePack/JSON.
+export const CACHE_ENTRY_VERSION = 0xca;
+
+// magic(1) version(1) flags(1) staleAt(8, epoch ms)
+export const CACHE_ENTRY_HEADER_SIZE = 11;
+
+// A cached "not found": the loader returned nothing and there is no payload
+const FLAG_NEGATIVE = 0x01;
+
+export interface CacheEntry {
+    staleAt: number;   // After this the value is served while a refresh runs
+    negative: boolean;
+    payload: Buffer;   // Codec output, empty for negative entries
+}
+
+export function writeCacheEntry(entry: CacheEntry): Buffer {
+    const head = Buffer.alloc(CACHE_ENTRY_HEADER_SIZE);
+    head.writeUInt8(ENVELOPE_MAGIC, 0);
+    head.writeUInt8(CACHE_ENTRY_VERSION, 1);
+    head.writeUInt8(entry.negative ? FLAG_NEGATIVE : 0, 2);
+    head.writeBigUInt64BE(BigInt(Math.floor(entry.staleAt)), 3);
+    return Buffer.concat([head, entry.negative ? Buffer.alloc(0) : entry.payload]);
+}
+
+// Returns null for values written by set(), which never go stale
+export function readCacheEntry(buffer: Buffer): CacheEntry | null {
+    if (buffer.length < CACHE_ENTRY_HEADER_SIZE || buffer[0] !== ENVELOPE_MAGIC || buffer[1] !== CACHE_ENTRY_VERSION) {
+        return null;
+    }
+
+    const flags = buffer.readUInt8(2);
+    return {
+        staleAt: Number(buffer.readBigUInt64BE(3)),
+        negative: (flags & FLAG_NEGATIVE) !== 0,
+        payload: buffer.subarray(CACHE_ENTRY_HEADER_SIZE)
+    };
+}
@@ -0,0 +1,72 @@
+// redis-client/cluster-keys.ts
+
+// Redis Cluster only runs multi-key commands, pipelines and transactions whose keys share a
+// hash slot. Only the part of a key inside `{...}` is hashed when there is one, so keys built
+// with the same tag always land together:
+//
+//   taggedKey('order', orderId)           -> order:{42}
+//   taggedKey('order', orderId, 'items')  -> order:{42}:items
+export const SLOT_COUNT = 16384;
+
+export function hashTag(id: string | number): string {
+    return `{${id}}`;
+}
+
+export function taggedKey(prefix: string, id: string | number, ...parts: Array<string | number>): string {
+    return [prefix, hashTag(id), ...parts].join(':');
+}
+
+// CRC16/XMODEM of the key's hash tag (or of the whole key) modulo 16384, as CLUSTER KEYSLOT
+export function keySlot(key: string | Buffer): number {
+    const bytes = typeof key === 'string' ? Buffer.from(key) : key;
+    const open = bytes.indexOf('{');
+    if (open >= 0) {
+        const close = bytes.indexOf('}', open + 1);
+        // `{}` is not a tag, and only the first `{` counts
+        if (close > open + 1) {
+            return crc16(bytes.subarray(open + 1, close)) % SLOT_COUNT;
+        }
+    }
+    return crc16(bytes) % SLOT_COUNT;
+}
+
+// Indexes into `keys`, grouped by slot, each group in its original order
+export function groupBySlot(keys: Array<string | Buffer>): Map<number, number[]> {
+    const groups = new Map<number, number[]>();
+    keys.forEach((key, index) => {
+        const slot = keySlot(key);
+        const group = groups.get(slot);
+        if (group) {
+            group.push(index);
+        } else {
+            groups.set(slot, [index]);
+        }
+    });
+    return groups;
+}
+
+// The shared slot, or undefined when the keys span more than one
+export function commonSlot(keys: Array<string | Buffer>): number | undefined {
+    const slots = new Set(keys.map(keySlot));
+    return slots.size === 1 ? slots.values().next().value : undefined;
+}
+
+const CRC16_TABLE = (() => {
+    const table = new Uint16Array(256);
+    for (let byte = 0; byte < 256; byte++) {
+        let crc = byte << 8;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+        }
+        table[byte] = crc & 0xffff;
+    }
+    return table;
+})();
+
+function crc16(bytes: Buffer): number {
+    let crc = 0;
+    for (const byte of bytes) {
+        crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[((crc >> 8) ^ byte) & 0xff];
+    }
+    return crc;
+}
@@ -0,0 +1,345 @@
+// shared-libs/serialization/codec-stream.ts
+import * as protobuf from 'protobufjs';
+import { Transform, TransformCallback } from 'stream';
+import { MessagePackExtensions } from './msgpack-extensions';
+import { decodeMessage, encodeMessage } from './protobuf-schemas';
+
+// MessagePack values are self-delimiting and are simply concatenated. Protobuf messages
+// are varint length-prefixed, as Java's writeDelimitedTo/parseDelimitedFrom expect.
+export type StreamFormat = 'messagepack' | 'protobuf';
+
+export interface CodecStreamOptions {
+    format: StreamFormat;
+    messageType?: protobuf.Type; // Required for protobuf
+    extensions?: MessagePackExtensions;
+    maxMessageSize: number;      // Largest single value
+    maxStreamSize?: number;      // Total bytes across the whole stream (default unlimited)
+}
+
+export class StreamLimitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StreamLimitError';
+    }
+}
+
+interface ValueDecoder {
+    push(chunk: Buffer): unknown[];
+    end(): void;
+}
+
+export class EncodeStream extends Transform {
+    private encoder: ValueEncoder;
+
+    constructor(options: CodecStreamOptions) {
+        super({ writableObjectMode: true });
+        this.encoder = new ValueEncoder(options);
+    }
+
+    _transform(value: unknown, _encoding: BufferEncoding, callback: TransformCallback): void {
+        try {
+            callback(null, this.encoder.encode(value));
+        } catch (error) {
+            callback(error as Error);
+        }
+    }
+}
+
+export class DecodeStream<T = unknown> extends Transform {
+    private decoder: ValueDecoder;
+
+    constructor(options: CodecStreamOptions) {
+        super({ readableObjectMode: true });
+        this.decoder = createDecoder(options);
+    }
+
+    _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+        try {
+            for (const value of this.decoder.push(chunk)) {
+                // push(null) would end the stream; decodeValues() has no such restriction
+                if (value === null) {
+                    throw new Error('Cannot emit a nil value on an object-mode stream');
+                }
+                this.push(value as T);
+            }
+            callback();
+        } catch (error) {
+            callback(error as Error);
+        }
+    }
+
+    _flush(callback: TransformCallback): void {
+        try {
+            this.decoder.end();
+            callback();
+        } catch (error) {
+            callback(error as Error);
+        }
+    }
+}
+
+export async function* encodeValues<T>(
+    source: AsyncIterable<T> | Iterable<T>,
+    options: CodecStreamOptions
+): AsyncGenerator<Buffer> {
+    const encoder = new ValueEncoder(options);
+    for await (const value of source) {
+        yield encoder.encode(value);
+    }
+}
+
+export async function* decodeValues<T>(
+    source: AsyncIterable<Buffer> | Iterable<Buffer>,
+    options: CodecStreamOptions
+): AsyncGenerator<T> {
+    const decoder = createDecoder(options);
+    for await (const chunk of source) {
+        for (const value of decoder.push(chunk)) {
+            yield value as T;
+        }
+    }
+    decoder.end();
+}
+
+class ValueEncoder {
+    private streamBytes = 0;
+    private extensions: MessagePackExtensions;
+
+    constructor(private options: CodecStreamOptions) {
+        requireMessageType(options);
+        this.extensions = options.extensions || new MessagePackExtensions();
+    }
+
+    encode(value: unknown): Buffer {
+        const { format, messageType, maxMessageSize, maxStreamSize } = this.options;
+        const payload = format === 'protobuf' ? encodeMessage(messageType!, value) : this.extensions.encode(value);
+
+        if (payload.length > maxMessageSize) {
+            throw new StreamLimitError(`Encoded value size ${payload.length} exceeds maximum ${maxMessageSize}`);
+        }
+
+        const framed = format === 'protobuf'
+            ? Buffer.from(protobuf.Writer.create().bytes(payload).finish())
+            : payload;
+
+        this.streamBytes = countStreamBytes(this.streamBytes + framed.length, maxStreamSize);
+        return framed;
+    }
+}
+
+function createDecoder(options: CodecStreamOptions): ValueDecoder {
+    requireMessageType(options);
+    return options.format === 'protobuf'
+        ? new DelimitedProtobufDecoder(options)
+        : new MessagePackDecoder(options);
+}
+
+function requireMessageType(options: CodecStreamOptions): void {
+    if (options.format === 'protobuf' && !options.messageType) {
+        throw new Error('Protobuf streams require a message type');
+    }
+}
+
+// Each value's extent is found by walking its headers, so the size limit applies to every
+// value as soon as its headers say how large it is, before it is buffered or decoded
+class MessagePackDecoder implements ValueDecoder {
+    private extensions: MessagePackExtensions;
+    private pending: Buffer = Buffer.alloc(0);
+    private scanned = 0;   // Bytes of the first pending value walked so far
+    private unscanned = 1; // Values left to walk before it is complete; arrays and maps add their items
+    private streamBytes = 0;
+
+    constructor(private options: CodecStreamOptions) {
+        this.extensions = options.extensions || new MessagePackExtensions();
+    }
+
+    push(chunk: Buffer): unknown[] {
+        this.streamBytes = countStreamBytes(this.streamBytes + chunk.length, this.options.maxStreamSize);
+        this.pending = this.pending.length > 0 ? Buffer.concat([this.pending, chunk]) : chunk;
+
+        const values: unknown[] = [];
+        for (let size = this.scan(); size !== null; size = this.scan()) {
+            values.push(this.extensions.decode(this.pending.subarray(0, size)));
+            this.pending = this.pending.subarray(size);
+            this.scanned = 0;
+            this.unscanned = 1;
+        }
+        return values;
+    }
+
+    end(): void {
+        if (this.pending.length > 0) {
+            throw new Error(`Stream ended partway through a value (${this.pending.length} bytes left)`);
+        }
+    }
+
+    // Resumes the walk of the first pending value; returns its size once it has all arrived
+    private scan(): number | null {
+        const buffer = this.pending;
+        const limit = this.options.maxMessageSize;
+        while (this.unscanned > 0) {
+            // Every value left takes at least a byte
+            if (this.scanned + this.unscanned > limit) {
+                throw new StreamLimitError(`Value exceeds maximum size ${limit}`);
+            }
+            if (this.scanned >= buffer.length) return null;
+
+            const head = messagePackHead(buffer, this.scanned);
+            if (!head) return null;
+            this.scanned += head.length;
+            this.unscanned += head.items - 1;
+        }
+        if (this.scanned > limit) {
+            throw new StreamLimitError(`Value exceeds maximum size ${limit}`);
+        }
+        return this.scanned <= buffer.length ? this.scanned : null;
+    }
+}
+
+// The size of the MessagePack value at `offset`, walked from its headers without decoding it.
+// Null if the buffer ends partway through the value; throws on a byte no value starts with.
+export function messagePackLength(buffer: Buffer, offset = 0): number | null {
+    let end = offset;
+    for (let remaining = 1; remaining > 0; remaining--) {
+        if (end >= buffer.length) return null;
+        const head = messagePackHead(buffer, end);
+        if (!head) return null;
+        end += head.length;
+        remaining += head.items;
+    }
+    return end <= buffer.length ? end - offset : null;
+}
+
+// The bytes a MessagePack value takes up apart from the items of an array or map, and how
+// many items follow. Null until enough of its header has arrived to tell.
+function messagePackHead(buffer: Buffer, offset: number): { length: number; items: number } | null {
+    const byte = buffer[offset];
+    if (byte <= 0x7f || byte >= 0xe0) return { length: 1, items: 0 }; // fixint
+    if (byte <= 0x8f) return { length: 1, items: (byte & 0x0f) * 2 };  // fixmap
+    if (byte <= 0x9f) return { length: 1, items: byte & 0x0f };        // fixarray
+    if (byte <= 0xbf) return { length: 1 + (byte & 0x1f), items: 0 };  // fixstr
+
+    const sized = (sizeBytes: number, extra: number, perItem = 0) => {
+        if (offset + 1 + sizeBytes > buffer.length) return null;
+        const size = buffer.readUIntBE(offset + 1, sizeBytes);
+        return perItem
+            ? { length: 1 + sizeBytes, items: size * perItem }
+            : { length: 1 + sizeBytes + extra + size, items: 0 };
+    };
+
+    switch (byte) {
+        case 0xc0: case 0xc2: case 0xc3: return { length: 1, items: 0 };   // nil, false, true
+        case 0xc4: case 0xd9: return sized(1, 0);                          // bin 8, str 8
+        case 0xc5: case 0xda: return sized(2, 0);
+        case 0xc6: case 0xdb: return sized(4, 0);
+        case 0xc7: return sized(1, 1);                                     // ext 8, plus its type byte
+        case 0xc8: return sized(2, 1);
+        case 0xc9: return sized(4, 1);
+        case 0xcc: case 0xd0: return { length: 2, items: 0 };              // uint 8, int 8
+        case 0xcd: case 0xd1: return { length: 3, items: 0 };
+        case 0xca: case 0xce: case 0xd2: return { length: 5, items: 0 };   // float 32, uint 32, int 32
+        case 0xcb: case 0xcf: case 0xd3: return { length: 9, items: 0 };
+        case 0xd4: return { length: 3, items: 0 };                         // fixext 1, plus its type byte
+        case 0xd5: return { length: 4, items: 0 };
+        case 0xd6: return { length: 6, items: 0 };
+        case 0xd7: return { length: 10, items: 0 };
+        case 0xd8: return { length: 18, items: 0 };
+        case 0xdc: return sized(2, 0, 1);                                  // array 16
+        case 0xdd: return sized(4, 0, 1);
+        case 0xde: return sized(2, 0, 2);                                  // map 16
+        case 0xdf: return sized(4, 0, 2);
+        default: throw new Error(`Invalid MessagePack byte 0x${byte.toString(16)}`); // 0xc1
+    }
+}
+
+class DelimitedProtobufDecoder implements ValueDecoder {
+    private chunks: Buffer[] = [];
+    private buffered = 0;
+    private expected?: number; // Body length once the varint prefix has been read
+    private streamBytes = 0;
+
+    constructor(private options: CodecStreamOptions) {}
+
+    push(chunk: Buffer): unknown[] {
+        this.streamBytes = countStreamBytes(this.streamBytes + chunk.length, this.options.maxStreamSize);
+        this.chunks.push(chunk);
+        this.buffered += chunk.length;
+
+        const messages: unknown[] = [];
+        for (;;) {
+            if (this.expected === undefined) {
+                const prefix = readVarint(this.peek(5));
+                if (!prefix) break;
+                // Reject on the declared length, before buffering any of the body
+                if (prefix.value > this.options.maxMessageSize) {
+                    throw new StreamLimitError(`Message size ${prefix.value} exceeds maximum ${this.options.maxMessageSize}`);
+                }
+                this.take(prefix.length);
+                this.expected = prefix.value;
+            }
+
+            if (this.buffered < this.expected) break;
+            messages.push(decodeMessage(this.options.messageType!, this.take(this.expected)));
+            this.expected = undefined;
+        }
+        return messages;
+    }
+
+    end(): void {
+        if (this.buffered > 0 || this.expected !== undefined) {
+            throw new Error(`Stream ended partway through a message (${this.buffered} bytes left)`);
+        }
+    }
+
+    private peek(length: number): Buffer {
+        const head: Buffer[] = [];
+        let size = 0;
+        for (const chunk of this.chunks) {
+            if (size >= length) break;
+            head.push(chunk);
+            size += chunk.length;
+        }
+        return Buffer.concat(head).subarray(0, length);
+    }
+
+    private take(length: number): Buffer {
+        const parts: Buffer[] = [];
+        let remaining = length;
+        while (remaining > 0) {
+            const chunk = this.chunks[0];
+            if (chunk.length <= remaining) {
+                parts.push(chunk);
+                this.chunks.shift();
+                remaining -= chunk.length;
+            } else {
+                parts.push(chunk.subarray(0, remaining));
+                this.chunks[0] = chunk.subarray(remaining);
+                remaining = 0;
+            }
+        }
+        this.buffered -= length;
+        return parts.length === 1 ? parts[0] : Buffer.concat(parts);
+    }
+}
+
+// Returns null until the whole prefix has arrived
+function readVarint(head: Buffer): { value: number; length: number } | null {
+    let value = 0;
+    for (let i = 0; i < head.length; i++) {
+        value += (head[i] & 0x7f) * 2 ** (7 * i);
+        if ((head[i] & 0x80) === 0) {
+            return { value, length: i + 1 };
+        }
+    }
+    if (head.length >= 5) {
+        throw new Error('Malformed length prefix');
+    }
+    return null;
+}
+
+function countStreamBytes(streamBytes: number, maxStreamSize?: number): number {
+    if (maxStreamSize && streamBytes > maxStreamSize) {
+        throw new StreamLimitError(`Stream size exceeds maximum ${maxStreamSize}`);
+    }
+    return streamBytes;
+}
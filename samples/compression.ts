@@ -0,0 +1,264 @@
+// shared-libs/serialization/compression.ts
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+
+export type CompressionAlgorithm = 'gzip' | 'brotli' | 'lz4' | 'zstd' | 'snappy';
+
+export interface CompressionOptions {
+    algorithm: CompressionAlgorithm;
+    thresholdBytes?: number;  // Payloads smaller than this stay uncompressed (default 1KB)
+    level?: number;
+    // Trained offline, e.g. `zstd --train samples/order-events/* -o order-events.dict`.
+    // Both producers and consumers must load the same dictionary.
+    zstdDictionary?: Buffer;
+}
+
+interface Codec {
+    compress(data: Buffer, level?: number): Promise<Buffer>;
+    decompress(data: Buffer, maxOutputLength: number): Promise<Buffer>;
+}
+
+// Stored in the low bits of the envelope flags; 0 means uncompressed
+export const COMPRESSION_IDS: Record<CompressionAlgorithm, number> = {
+    gzip: 1,
+    brotli: 2,
+    lz4: 3,
+    zstd: 4,
+    snappy: 5
+};
+
+const ALGORITHMS_BY_ID: Record<number, CompressionAlgorithm> = {
+    1: 'gzip',
+    2: 'brotli',
+    3: 'lz4',
+    4: 'zstd',
+    5: 'snappy'
+};
+
+const ZSTD_MAGIC = 0xFD2FB528;
+const ZSTD_SKIPPABLE_MAGIC = 0x184D2A50; // Low 4 bits vary
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+const brotliCompress = promisify(zlib.brotliCompress);
+const brotliDecompress = promisify(zlib.brotliDecompress);
+
+export function isCompressionAlgorithm(name: string): name is CompressionAlgorithm {
+    return Object.prototype.hasOwnProperty.call(COMPRESSION_IDS, name);
+}
+
+export class Compression {
+    private codecs = new Map<CompressionAlgorithm, Codec>();
+    readonly algorithm: CompressionAlgorithm;
+    private thresholdBytes: number;
+    private level?: number;
+    private zstdDictionary?: Buffer;
+
+    constructor(options: CompressionOptions) {
+        if (!isCompressionAlgorithm(options.algorithm)) {
+            throw new Error(`Unknown compression algorithm "${options.algorithm}"`);
+        }
+        this.algorithm = options.algorithm;
+        this.thresholdBytes = options.thresholdBytes ?? 1024;
+        this.level = options.level;
+        this.zstdDictionary = options.zstdDictionary;
+    }
+
+    // Returns the algorithm id written to the envelope alongside the (possibly unchanged) payload
+    async compress(payload: Buffer): Promise<{ payload: Buffer; algorithmId: number }> {
+        if (payload.length < this.thresholdBytes) {
+            return { payload, algorithmId: 0 };
+        }
+
+        const compressed = await this.codec(this.algorithm).compress(payload, this.level);
+        // Small or high-entropy payloads can grow; ship those as-is
+        if (compressed.length >= payload.length) {
+            return { payload, algorithmId: 0 };
+        }
+        return { payload: compressed, algorithmId: COMPRESSION_IDS[this.algorithm] };
+    }
+
+    // Any supported algorithm can be decoded, not just the one this side compresses with
+    async decompress(payload: Buffer, algorithmId: number, maxOutputLength: number): Promise<Buffer> {
+        if (algorithmId === 0) {
+            return payload;
+        }
+
+        const algorithm = ALGORITHMS_BY_ID[algorithmId];
+        if (!algorithm) {
+            throw new Error(`Unknown compression algorithm id ${algorithmId}`);
+        }
+
+        const output = await this.codec(algorithm).decompress(payload, maxOutputLength);
+        if (output.length > maxOutputLength) {
+            throw new Error(`Decompressed size ${output.length} exceeds maximum ${maxOutputLength}`);
+        }
+        return output;
+    }
+
+    private codec(algorithm: CompressionAlgorithm): Codec {
+        let codec = this.codecs.get(algorithm);
+        if (!codec) {
+            codec = this.createCodec(algorithm);
+            this.codecs.set(algorithm, codec);
+        }
+        return codec;
+    }
+
+    private createCodec(algorithm: CompressionAlgorithm): Codec {
+        switch (algorithm) {
+            case 'gzip':
+                return {
+                    compress: (data, level) => gzip(data, { level: level ?? zlib.constants.Z_DEFAULT_COMPRESSION }),
+                    decompress: (data, maxOutputLength) => gunzip(data, { maxOutputLength })
+                };
+            case 'brotli':
+                return {
+                    compress: (data, level) => brotliCompress(data, {
+                        params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level ?? 5 }
+                    }),
+                    decompress: (data, maxOutputLength) => brotliDecompress(data, { maxOutputLength })
+                };
+            case 'lz4': {
+                const lz4 = loadOptional('lz4-napi');
+                return {
+                    compress: async data => await lz4.compress(data),
+                    decompress: async (data, maxOutputLength) => {
+                        checkDeclaredSize('lz4', lz4DeclaredSize(data), maxOutputLength);
+                        return await lz4.uncompress(data);
+                    }
+                };
+            }
+            case 'snappy': {
+                const snappy = loadOptional('snappy');
+                return {
+                    compress: async data => await snappy.compress(data),
+                    decompress: async (data, maxOutputLength) => {
+                        checkDeclaredSize('snappy', snappyDeclaredSize(data), maxOutputLength);
+                        return await snappy.uncompress(data);
+                    }
+                };
+            }
+            case 'zstd':
+                return createZstdCodec(this.zstdDictionary);
+        }
+    }
+}
+
+function createZstdCodec(dictionary?: Buffer): Codec {
+    const zstd = loadOptional('zstd-napi');
+    const compressors = new Map<number, any>();
+    const decompressor = new zstd.Decompressor();
+    if (dictionary) {
+        decompressor.loadDictionary(dictionary);
+    }
+
+    return {
+        async compress(data, level = 3) {
+            let compressor = compressors.get(level);
+            if (!compressor) {
+                compressor = new zstd.Compressor();
+                compressor.setParameters({ compressionLevel: level });
+                if (dictionary) {
+                    compressor.loadDictionary(dictionary);
+                }
+                compressors.set(level, compressor);
+            }
+            return compressor.compress(data);
+        },
+        async decompress(data, maxOutputLength) {
+            checkDeclaredSize('zstd', zstdDeclaredSize(data), maxOutputLength);
+            return decompressor.decompress(data);
+        }
+    };
+}
+
+// Unlike zlib, the native codecs take no output limit. Each format declares its uncompressed
+// size up front and the decoders fail on output that doesn't match it, so checking the
+// declared size first keeps a small payload from inflating into gigabytes.
+function checkDeclaredSize(algorithm: CompressionAlgorithm, size: number, maxOutputLength: number): void {
+    if (size > maxOutputLength) {
+        throw new Error(`Declared ${algorithm} size ${size} exceeds maximum ${maxOutputLength}`);
+    }
+}
+
+// lz4-napi prepends it as a little-endian uint32
+function lz4DeclaredSize(data: Buffer): number {
+    if (data.length < 4) {
+        throw new Error('Truncated lz4 payload');
+    }
+    return data.readUInt32LE(0);
+}
+
+// Snappy's raw format starts with it as a little-endian base-128 varint
+function snappyDeclaredSize(data: Buffer): number {
+    let size = 0;
+    for (let i = 0; i < Math.min(data.length, 5); i++) {
+        size += (data[i] & 0x7F) * 2 ** (7 * i);
+        if ((data[i] & 0x80) === 0) {
+            return size;
+        }
+    }
+    throw new Error('Invalid snappy length preamble');
+}
+
+// The sum of every frame's content size (RFC 8878). Blocks are walked to find where each
+// frame ends; frames that don't declare their size are refused, as are trailing bytes.
+function zstdDeclaredSize(data: Buffer): number {
+    let total = 0;
+    let offset = 0;
+    while (offset < data.length) {
+        if (offset + 8 > data.length) {
+            throw new Error('Truncated zstd frame');
+        }
+        const magic = data.readUInt32LE(offset);
+        if ((magic & 0xFFFFFFF0) >>> 0 === ZSTD_SKIPPABLE_MAGIC) {
+            offset += 8 + data.readUInt32LE(offset + 4);
+            continue;
+        }
+        if (magic !== ZSTD_MAGIC) {
+            throw new Error('Not a zstd frame');
+        }
+
+        const descriptor = data[offset + 4];
+        const singleSegment = (descriptor & 0x20) !== 0;
+        const sizeBytes = [singleSegment ? 1 : 0, 2, 4, 8][descriptor >> 6];
+        if (sizeBytes === 0) {
+            throw new Error('zstd frame does not declare its content size');
+        }
+        let position = offset + 5 + (singleSegment ? 0 : 1) + [0, 1, 2, 4][descriptor & 0x03];
+        if (position + sizeBytes > data.length) {
+            throw new Error('Truncated zstd frame');
+        }
+        switch (sizeBytes) {
+            case 1: total += data[position]; break;
+            case 2: total += data.readUInt16LE(position) + 256; break;
+            case 4: total += data.readUInt32LE(position); break;
+            default: total += Number(data.readBigUInt64LE(position));
+        }
+        position += sizeBytes;
+
+        // 3-byte little-endian block headers: bit 0 marks the last block, bits 1-2 the type,
+        // the rest the size. An RLE block (type 1) holds one byte repeated that many times.
+        let last = false;
+        while (!last) {
+            if (position + 3 > data.length) {
+                throw new Error('Truncated zstd frame');
+            }
+            const header = data.readUIntLE(position, 3);
+            last = (header & 1) === 1;
+            position += 3 + (((header >> 1) & 3) === 1 ? 1 : header >>> 3);
+        }
+        offset = position + ((descriptor & 0x04) !== 0 ? 4 : 0); // Content checksum
+    }
+    return total;
+}
+
+// Native codecs are optional dependencies; only services that use them need them installed
+function loadOptional(moduleName: string): any {
+    try {
+        return require(moduleName);
+    } catch (error) {
+        throw new Error(`Compression requires the optional dependency "${moduleName}"`);
+    }
+}
\ No newline at end of file
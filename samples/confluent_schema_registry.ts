@@ -0,0 +1,139 @@
+// shared-libs/schema-registry/confluent-client.ts
+import {
+    CompatibilityLevel,
+    RegisteredSchema,
+    SchemaCompatibilityError,
+    SchemaDefinition,
+    SchemaNotFoundError,
+    SchemaRegistryClient,
+    SchemaType,
+    UnsupportedSchemaTypeError
+} from './schema-registry';
+
+export interface ConfluentSchemaRegistryOptions {
+    baseUrl: string; // e.g. http://localhost:8081
+    username?: string;
+    password?: string;
+    timeoutMs?: number;
+}
+
+interface SubjectVersionResponse {
+    subject: string;
+    id: number;
+    version: number;
+    schema: string;
+    schemaType?: string; // Omitted by the server for Avro
+}
+
+const CONTENT_TYPE = 'application/vnd.schemaregistry.v1+json';
+const SUPPORTED_SCHEMA_TYPES: SchemaType[] = ['JSON', 'PROTOBUF'];
+
+export class SchemaRegistryHttpError extends Error {
+    constructor(message: string, public readonly status: number) {
+        super(message);
+        this.name = 'SchemaRegistryHttpError';
+    }
+}
+
+export class ConfluentSchemaRegistry implements SchemaRegistryClient {
+    private baseUrl: string;
+    private authorization?: string;
+    private timeoutMs: number;
+
+    constructor(options: ConfluentSchemaRegistryOptions) {
+        this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+        this.timeoutMs = options.timeoutMs || 5000;
+        if (options.username) {
+            const credentials = Buffer.from(`${options.username}:${options.password || ''}`).toString('base64');
+            this.authorization = `Basic ${credentials}`;
+        }
+    }
+
+    async register(subject: string, definition: SchemaDefinition): Promise<RegisteredSchema> {
+        try {
+            await this.request<{ id: number }>('POST', `/subjects/${encodeURIComponent(subject)}/versions`, definition);
+        } catch (error) {
+            if (error instanceof SchemaRegistryHttpError && error.status === 409) {
+                throw new SchemaCompatibilityError(subject, [error.message]);
+            }
+            throw error;
+        }
+        // The register response only carries the id; look the schema up to learn its version
+        const found = await this.request<SubjectVersionResponse>('POST', `/subjects/${encodeURIComponent(subject)}`, definition);
+        return toRegistered(found);
+    }
+
+    async getById(id: number): Promise<RegisteredSchema> {
+        const [schema, versions] = await Promise.all([
+            this.request<{ schema: string; schemaType?: string }>('GET', `/schemas/ids/${id}`),
+            this.request<Array<{ subject: string; version: number }>>('GET', `/schemas/ids/${id}/versions`)
+        ]);
+        const [first] = versions;
+        return toRegistered({ ...schema, id, subject: first?.subject || '', version: first?.version || 0 });
+    }
+
+    async getLatest(subject: string): Promise<RegisteredSchema> {
+        return toRegistered(await this.request<SubjectVersionResponse>(
+            'GET', `/subjects/${encodeURIComponent(subject)}/versions/latest`));
+    }
+
+    async getVersion(subject: string, version: number): Promise<RegisteredSchema> {
+        return toRegistered(await this.request<SubjectVersionResponse>(
+            'GET', `/subjects/${encodeURIComponent(subject)}/versions/${version}`));
+    }
+
+    async testCompatibility(subject: string, definition: SchemaDefinition): Promise<string[]> {
+        try {
+            const result = await this.request<{ is_compatible: boolean; messages?: string[] }>(
+                'POST', `/compatibility/subjects/${encodeURIComponent(subject)}/versions/latest?verbose=true`, definition);
+            return result.is_compatible ? [] : (result.messages || ['incompatible']);
+        } catch (error) {
+            // Nothing registered yet, so anything is compatible
+            if (error instanceof SchemaNotFoundError) return [];
+            throw error;
+        }
+    }
+
+    async setCompatibility(subject: string, level: CompatibilityLevel): Promise<void> {
+        await this.request('PUT', `/config/${encodeURIComponent(subject)}`, { compatibility: level });
+    }
+
+    private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+        const headers: Record<string, string> = { 'Accept': CONTENT_TYPE };
+        if (body !== undefined) headers['Content-Type'] = CONTENT_TYPE;
+        if (this.authorization) headers['Authorization'] = this.authorization;
+
+        const response = await fetch(`${this.baseUrl}${path}`, {
+            method,
+            headers,
+            body: body === undefined ? undefined : JSON.stringify(body),
+            signal: AbortSignal.timeout(this.timeoutMs)
+        });
+
+        const payload: any = await response.json().catch(() => ({}));
+        if (response.status === 404) {
+            throw new SchemaNotFoundError(payload.message || path);
+        }
+        if (!response.ok) {
+            throw new SchemaRegistryHttpError(
+                `Schema registry ${method} ${path} failed with ${response.status}: ${payload.message || response.statusText}`,
+                response.status
+            );
+        }
+        return payload as T;
+    }
+}
+
+function toRegistered(response: SubjectVersionResponse): RegisteredSchema {
+    const schemaType = response.schemaType || 'AVRO';
+    if (!SUPPORTED_SCHEMA_TYPES.includes(schemaType as SchemaType)) {
+        throw new UnsupportedSchemaTypeError(schemaType, `Schema ${response.id} (${response.subject} v${response.version})`);
+    }
+    return {
+        id: response.id,
+        subject: response.subject,
+        version: response.version,
+        schemaType: schemaType as SchemaType,
+        schema: response.schema
+    };
+}
\ No newline at end of file
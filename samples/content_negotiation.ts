@@ -0,0 +1,131 @@
+// shared-libs/http/content-negotiation.ts
+import express, { NextFunction, Request, RequestHandler, Response } from 'express';
+import { MetricLabels } from '../metrics/serialization-instruments';
+import { BinaryCodec, BinaryCodecOptions, SerializationFormat } from '../serialization/binary-codec';
+import { MessagePackExtensions } from '../serialization/msgpack-extensions';
+
+// Content-Type already names the format, so bodies carry no envelope and never silently
+// turn into JSON: a fallback would put JSON bytes under a binary Content-Type.
+export interface ContentNegotiationOptions
+    extends Omit<BinaryCodecOptions, 'formatType' | 'fallbackJson' | 'maxSize' | 'envelope' | 'compression' | 'protection' | 'registry' | 'validate'> {
+    maxBodySize?: number; // Request bodies over this get a 413 (default 1MB)
+    maxResponseSize?: number; // Default 10MB, BinaryCodec's own default
+    defaultFormat?: SerializationFormat; // For requests without an Accept header (default json)
+}
+
+export interface SendEncodedOptions {
+    status?: number;
+    messageType?: string; // Protobuf type when it isn't options.protobuf.messageType
+}
+
+declare global {
+    namespace Express {
+        interface Response {
+            // Encodes `body` in the best format the client's Accept header allows, or sends 406
+            sendEncoded(body: unknown, options?: SendEncodedOptions): Promise<void>;
+        }
+    }
+}
+
+export const MEDIA_TYPES: Record<SerializationFormat, string> = {
+    json: 'application/json',
+    messagepack: 'application/msgpack',
+    protobuf: 'application/x-protobuf'
+};
+
+// Older and vendor spellings seen in the wild, accepted on requests only
+const REQUEST_MEDIA_TYPES: Record<string, SerializationFormat> = {
+    'application/json': 'json',
+    'application/msgpack': 'messagepack',
+    'application/x-msgpack': 'messagepack',
+    'application/vnd.msgpack': 'messagepack',
+    'application/x-protobuf': 'protobuf',
+    'application/protobuf': 'protobuf'
+};
+
+export function contentNegotiation(options: ContentNegotiationOptions = {}): RequestHandler {
+    const { maxBodySize = 1024 * 1024, maxResponseSize, defaultFormat = 'json', ...codecOptions } = options;
+
+    const formats: SerializationFormat[] = ['json', 'messagepack'];
+    if (codecOptions.protobuf) {
+        formats.push('protobuf');
+    }
+    if (!formats.includes(defaultFormat)) {
+        throw new Error(`Default format ${defaultFormat} needs its codec options configured`);
+    }
+
+    const extensions = codecOptions.extensions || new MessagePackExtensions();
+    const codecs = new Map<SerializationFormat, BinaryCodec>(formats.map(format => [format, new BinaryCodec({
+        ...codecOptions,
+        extensions,
+        formatType: format,
+        fallbackJson: false,
+        maxSize: maxResponseSize
+    })]));
+
+    // req.accepts() returns the first listed type when there's no Accept header
+    const responseTypes = [defaultFormat, ...formats.filter(format => format !== defaultFormat)].map(f => MEDIA_TYPES[f]);
+    const requestTypes = Object.keys(REQUEST_MEDIA_TYPES)
+        .filter(mediaType => formats.includes(REQUEST_MEDIA_TYPES[mediaType]));
+
+    // body-parser handles the size limit (streamed, so oversized bodies aren't buffered) and gzip/deflate
+    const readBody = express.raw({ type: () => true, limit: maxBodySize });
+
+    return (req: Request, res: Response, next: NextFunction) => {
+        res.sendEncoded = async (body, sendOptions = {}) => {
+            const mediaType = req.accepts(responseTypes);
+            if (!mediaType) {
+                res.status(406).json({ error: 'Not Acceptable', available: responseTypes });
+                return;
+            }
+
+            const format = REQUEST_MEDIA_TYPES[mediaType];
+            const { buffer } = await codecs.get(format)!.encode(body, sendOptions.messageType, { labels: labelsFor(req) });
+            res.vary('Accept');
+            res.status(sendOptions.status || 200).type(mediaType).send(buffer);
+        };
+
+        if (!hasBody(req)) {
+            return next();
+        }
+
+        const mediaType = req.is(requestTypes);
+        if (!mediaType) {
+            res.status(415).json({ error: 'Unsupported Media Type', accepted: requestTypes });
+            return;
+        }
+
+        readBody(req, res, (error?: any) => {
+            if (error) {
+                res.status(error.status || 400).json({ error: error.message });
+                return;
+            }
+
+            const format = REQUEST_MEDIA_TYPES[mediaType];
+            codecs.get(format)!.decode(req.body as Buffer, undefined, { labels: labelsFor(req) })
+                .then(decoded => {
+                    req.body = decoded;
+                    next();
+                })
+                .catch(decodeError => {
+                    res.status(400).json({ error: `Malformed ${format} body: ${decodeError.message}` });
+                });
+        });
+    };
+}
+
+// Same test body-parser uses: chunked, or a non-zero Content-Length
+function hasBody(req: Request): boolean {
+    return req.headers['transfer-encoding'] !== undefined
+        || (req.headers['content-length'] !== undefined && req.headers['content-length'] !== '0');
+}
+
+// The route pattern rather than the URL, so order ids don't each get a series. Responses are
+// sent from the handler, where the matched route is known; request bodies are decoded before
+// routing, so their path has each segment with a digit in it (ids, timestamps) replaced by :id.
+function labelsFor(req: Request): MetricLabels {
+    const target = typeof req.route?.path === 'string'
+        ? req.baseUrl + req.route.path
+        : req.baseUrl + req.path.replace(/\/[^/]*\d[^/]*/g, '/:id');
+    return { component: 'http', target };
+}
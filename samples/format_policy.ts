@@ -0,0 +1,181 @@
+// shared-libs/serialization/format-policy.ts
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import type { SerializationFormat } from './binary-codec';
+
+// Kafka rules match topics, Redis rules key prefixes and WebSocket rules broadcast topics
+export type PolicyScope = 'kafka' | 'redis' | 'websocket';
+
+export interface FormatRule {
+    match: string;           // Prefix of the topic/key/channel; '' matches everything
+    from: SerializationFormat;
+    to: SerializationFormat;
+    percent: number;         // 0-100 share of traffic written as `to`
+    by?: 'key' | 'random';   // 'key' (default) keeps a key on one format; keyless writes are random
+    shadowPercent?: number;  // 0-100 share of writes also encoded in the other format and compared
+}
+
+export type FormatPolicyConfig = Partial<Record<PolicyScope, FormatRule[]>>;
+
+export interface FormatDecision {
+    format: SerializationFormat;
+    shadowFormat?: SerializationFormat;
+}
+
+export interface WatchOptions {
+    intervalMs?: number; // Polling interval (default 5s); fs.watch misses ConfigMap symlink swaps
+}
+
+const SCOPES: PolicyScope[] = ['kafka', 'redis', 'websocket'];
+const FORMATS: SerializationFormat[] = ['messagepack', 'protobuf', 'json'];
+
+// Producers ask for a decision per write; the rules can be swapped at any time
+export class FormatPolicy {
+    private rules = new Map<PolicyScope, FormatRule[]>();
+    private watchedFile?: string;
+
+    constructor(config: FormatPolicyConfig = {}) {
+        this.update(config);
+    }
+
+    // Loads the file now (throwing if it is invalid) and reloads it whenever it changes
+    static fromFile(file: string, options: WatchOptions = {}): FormatPolicy {
+        const policy = new FormatPolicy(readConfig(file));
+        policy.watch(file, options);
+        return policy;
+    }
+
+    // Undefined when no rule matches: the caller's configured format applies
+    decide(scope: PolicyScope, target: string, key?: string): FormatDecision | undefined {
+        const rule = this.rules.get(scope)?.find(candidate => target.startsWith(candidate.match));
+        if (!rule) {
+            return undefined;
+        }
+
+        const bucket = key !== undefined && rule.by !== 'random' ? hashBucket(key) : Math.random() * 100;
+        const format = bucket < rule.percent ? rule.to : rule.from;
+        const other = format === rule.to ? rule.from : rule.to;
+        const shadow = other !== format && Math.random() * 100 < (rule.shadowPercent || 0);
+        return shadow ? { format, shadowFormat: other } : { format };
+    }
+
+    // Validates the whole config before replacing anything, so a bad edit leaves the old rules live
+    update(config: FormatPolicyConfig): void {
+        for (const scope of Object.keys(config)) {
+            if (!SCOPES.includes(scope as PolicyScope)) {
+                throw new Error(`Unknown format policy scope ${scope}`);
+            }
+        }
+
+        const rules = new Map<PolicyScope, FormatRule[]>();
+        for (const scope of SCOPES) {
+            const scopeRules = config[scope] || [];
+            scopeRules.forEach((rule, index) => validateRule(rule, `${scope}[${index}]`));
+            // Longest prefix first so `order-events.priority` wins over `order-events`
+            rules.set(scope, [...scopeRules].sort((a, b) => b.match.length - a.match.length));
+        }
+        this.rules = rules;
+    }
+
+    close(): void {
+        if (this.watchedFile) {
+            fs.unwatchFile(this.watchedFile);
+            this.watchedFile = undefined;
+        }
+    }
+
+    private watch(file: string, options: WatchOptions): void {
+        this.close();
+        this.watchedFile = file;
+        fs.watchFile(file, { interval: options.intervalMs || 5000, persistent: false }, (current, previous) => {
+            if (current.mtimeMs === previous.mtimeMs || current.nlink === 0) {
+                return; // Unchanged, or deleted mid-swap; the next poll picks up the new file
+            }
+            try {
+                this.update(readConfig(file));
+                console.log(`Reloaded format policy from ${file}`);
+            } catch (error) {
+                console.error(`Keeping the previous format policy, ${file} is invalid:`, error);
+            }
+        });
+    }
+}
+
+// Paths to the first few differences between two decoded values; empty when they match
+export function compareDecoded(expected: unknown, actual: unknown, path = '$', differences: string[] = []): string[] {
+    if (differences.length >= 10 || Object.is(expected, actual)) {
+        return differences;
+    }
+
+    if (expected instanceof Date && actual instanceof Date) {
+        if (expected.getTime() !== actual.getTime()) {
+            differences.push(`${path}: ${expected.toISOString()} != ${actual.toISOString()}`);
+        }
+    } else if (expected instanceof Uint8Array && actual instanceof Uint8Array) {
+        if (!Buffer.from(expected).equals(Buffer.from(actual))) {
+            differences.push(`${path}: bytes differ`);
+        }
+    } else if ((expected instanceof Map && actual instanceof Map) || (expected instanceof Set && actual instanceof Set)) {
+        compareDecoded(Array.from(expected), Array.from(actual), path, differences);
+    } else if (Array.isArray(expected) && Array.isArray(actual)) {
+        if (expected.length !== actual.length) {
+            differences.push(`${path}: length ${expected.length} != ${actual.length}`);
+        }
+        for (let i = 0; i < Math.min(expected.length, actual.length); i++) {
+            compareDecoded(expected[i], actual[i], `${path}[${i}]`, differences);
+        }
+    } else if (isObject(expected) && isObject(actual)
+        && Object.getPrototypeOf(expected) === Object.getPrototypeOf(actual)) {
+        // Same class: plain objects, or extension types such as Decimal, compared field by field
+        const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+        for (const key of keys) {
+            compareDecoded(expected[key], actual[key], `${path}.${key}`, differences);
+        }
+    } else {
+        differences.push(`${path}: ${describe(expected)} != ${describe(actual)}`);
+    }
+    return differences;
+}
+
+function readConfig(file: string): FormatPolicyConfig {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as FormatPolicyConfig;
+}
+
+function validateRule(rule: FormatRule, where: string): void {
+    if (typeof rule.match !== 'string') {
+        throw new Error(`Format policy rule ${where} needs a match prefix`);
+    }
+    for (const format of [rule.from, rule.to]) {
+        if (!FORMATS.includes(format)) {
+            throw new Error(`Format policy rule ${where} has unknown format ${format}`);
+        }
+    }
+    for (const percent of [rule.percent, rule.shadowPercent ?? 0]) {
+        if (typeof percent !== 'number' || percent < 0 || percent > 100) {
+            throw new Error(`Format policy rule ${where} percentages must be from 0 to 100`);
+        }
+    }
+    if (rule.by !== undefined && rule.by !== 'key' && rule.by !== 'random') {
+        throw new Error(`Format policy rule ${where} has unknown bucketing ${rule.by}`);
+    }
+}
+
+// Stable 0-100 bucket, so raising `percent` only ever moves keys from `from` to `to`
+function hashBucket(key: string): number {
+    return createHash('sha1').update(key).digest().readUInt32BE(0) % 10000 / 100;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null;
+}
+
+function describe(value: unknown): string {
+    if (typeof value === 'bigint') {
+        return `${value}n`;
+    }
+    if (isObject(value) && Object.getPrototypeOf(value) !== Object.prototype) {
+        return (value.constructor as Function | undefined)?.name || 'object';
+    }
+    const json = JSON.stringify(value);
+    return json === undefined ? String(value) : json.slice(0, 40);
+}
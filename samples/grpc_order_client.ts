@@ -0,0 +1,142 @@
+// shared-libs/grpc/order-service-client.ts
+import * as grpc from '@grpc/grpc-js';
+import * as path from 'path';
+import { ProtobufSchemas } from '../serialization/protobuf-schemas';
+import { deadlineAfter, HEALTH_PROTO, HEALTH_SERVICE, loadServiceDefinition, ServingStatus } from './protobuf-service';
+
+export const ORDER_SERVICE = 'orders.v1.OrderService';
+export const ORDER_SERVICE_PROTO = path.resolve(__dirname, '../schemas/order_service.proto');
+
+// orders.v1 messages as protobufjs decodes them (see order_events.proto)
+export interface OrderItem {
+    productId: string;
+    quantity: number;
+    price: number;
+}
+
+export interface OrderEvent {
+    orderId: string;
+    customerId: string;
+    items: OrderItem[];
+    totalAmount: number;
+    timestamp: string;
+}
+
+export type CreateOrderRequest = Omit<OrderEvent, 'orderId' | 'timestamp'>;
+
+export interface WatchOrdersRequest {
+    orderIds?: string[];
+    customerId?: string;
+}
+
+export interface OrderServiceClientOptions {
+    address: string;                       // host:port, e.g. order-service:50051
+    credentials?: grpc.ChannelCredentials; // Default insecure, for in-cluster traffic
+    deadlineMs?: number;                   // For unary calls without their own (default 5s)
+    channelOptions?: grpc.ChannelOptions;
+}
+
+export interface OrderCallOptions {
+    deadlineMs?: number;
+    metadata?: grpc.Metadata;
+}
+
+const DEFAULT_DEADLINE_MS = 5000;
+
+// Typed client for other services. Calls reject with the grpc.ServiceError the server
+// returned; a missing order resolves to null, as the HTTP route answers 404.
+export class OrderServiceClient {
+    private client: grpc.Client;
+    private schemas = new ProtobufSchemas({ protoFiles: [ORDER_SERVICE_PROTO, HEALTH_PROTO] });
+    private definitions?: Promise<{ orders: grpc.ServiceDefinition; health: grpc.ServiceDefinition }>;
+    private deadlineMs: number;
+
+    constructor(options: OrderServiceClientOptions) {
+        this.client = new grpc.Client(
+            options.address,
+            options.credentials || grpc.credentials.createInsecure(),
+            options.channelOptions
+        );
+        this.deadlineMs = options.deadlineMs || DEFAULT_DEADLINE_MS;
+    }
+
+    async createOrder(order: CreateOrderRequest, options: OrderCallOptions = {}): Promise<string> {
+        const { orders } = await this.loadDefinitions();
+        const response = await this.unary<{ orderId: string }>(orders.CreateOrder, order, options);
+        return response.orderId;
+    }
+
+    async getOrder(orderId: string, options: OrderCallOptions = {}): Promise<OrderEvent | null> {
+        const { orders } = await this.loadDefinitions();
+        try {
+            return await this.unary<OrderEvent>(orders.GetOrder, { orderId }, options);
+        } catch (error) {
+            if ((error as grpc.ServiceError).code === grpc.status.NOT_FOUND) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    // Runs until the caller stops iterating, which cancels the call, or the server ends it.
+    // Only limited by a deadline when one is given. Needs order ids or a customer id.
+    async *watchOrders(request: WatchOrdersRequest, options: OrderCallOptions = {}): AsyncGenerator<OrderEvent> {
+        const { orders } = await this.loadDefinitions();
+        const method = orders.WatchOrders;
+        const call = this.client.makeServerStreamRequest(
+            method.path,
+            method.requestSerialize,
+            method.responseDeserialize,
+            request,
+            options.metadata || new grpc.Metadata(),
+            options.deadlineMs ? { deadline: deadlineAfter(options.deadlineMs) } : {}
+        );
+
+        try {
+            for await (const order of call) {
+                yield order as OrderEvent;
+            }
+        } finally {
+            call.cancel();
+        }
+    }
+
+    // '' asks about the server as a whole
+    async checkHealth(service = ORDER_SERVICE, options: OrderCallOptions = {}): Promise<ServingStatus> {
+        const { health } = await this.loadDefinitions();
+        const response = await this.unary<{ status: ServingStatus }>(health.Check, { service }, options);
+        return response.status;
+    }
+
+    close(): void {
+        this.client.close();
+    }
+
+    // On first use, like the schemas: a bad .proto fails the call rather than going unhandled
+    private loadDefinitions(): Promise<{ orders: grpc.ServiceDefinition; health: grpc.ServiceDefinition }> {
+        if (!this.definitions) {
+            this.definitions = Promise.all([
+                loadServiceDefinition(this.schemas, ORDER_SERVICE),
+                loadServiceDefinition(this.schemas, HEALTH_SERVICE)
+            ]).then(([orders, health]) => ({ orders, health }));
+            this.definitions.catch(() => {
+                this.definitions = undefined;
+            });
+        }
+        return this.definitions;
+    }
+
+    private unary<R>(method: grpc.MethodDefinition<any, any>, request: unknown, options: OrderCallOptions): Promise<R> {
+        return new Promise((resolve, reject) => {
+            this.client.makeUnaryRequest(
+                method.path,
+                method.requestSerialize,
+                method.responseDeserialize,
+                request,
+                options.metadata || new grpc.Metadata(),
+                { deadline: deadlineAfter(options.deadlineMs || this.deadlineMs) },
+                (error, response) => error ? reject(error) : resolve(response as R)
+            );
+        });
+    }
+}
@@ -0,0 +1,145 @@
+// microservices/order-service/src/grpc-server.ts
+import * as grpc from '@grpc/grpc-js';
+import {
+    CreateOrderRequest,
+    ORDER_SERVICE,
+    ORDER_SERVICE_PROTO,
+    OrderEvent,
+    WatchOrdersRequest
+} from '../../shared-libs/grpc/order-service-client';
+import { grpcError, HealthService, loadServiceDefinition } from '../../shared-libs/grpc/protobuf-service';
+import { ProtobufSchemas } from '../../shared-libs/serialization/protobuf-schemas';
+
+// What the gRPC endpoint needs from OrderService
+export interface OrderBackend {
+    createOrder(order: CreateOrderRequest): Promise<string>;
+    getOrder(orderId: string): Promise<OrderEvent | null>;
+    watchOrders(listener: (order: OrderEvent) => void): () => void; // Returns the unsubscribe
+}
+
+export interface OrderGrpcServerOptions {
+    port?: number;                          // Default 50051, 0 picks a free port
+    host?: string;                          // Default 0.0.0.0
+    credentials?: grpc.ServerCredentials;   // Default insecure, for in-cluster traffic
+    maxWatchBacklog?: number;               // Events a WatchOrders caller may fall behind by before it is cut off (default 1000)
+    shutdownTimeoutMs?: number;             // Wait for in-flight calls before cancelling them (default 10s)
+}
+
+// orders.v1.OrderService plus grpc.health.v1.Health, next to the Express app
+export class OrderGrpcServer {
+    private server = new grpc.Server();
+    private health = new HealthService();
+    private watches = new Set<grpc.ServerWritableStream<WatchOrdersRequest, OrderEvent>>();
+    private options: OrderGrpcServerOptions;
+
+    constructor(private backend: OrderBackend, options: OrderGrpcServerOptions = {}) {
+        this.options = options;
+    }
+
+    // Resolves with the bound port
+    async start(): Promise<number> {
+        const schemas = new ProtobufSchemas({ protoFiles: [ORDER_SERVICE_PROTO] });
+        this.server.addService(await loadServiceDefinition(schemas, ORDER_SERVICE), {
+            CreateOrder: this.createOrder.bind(this),
+            GetOrder: this.getOrder.bind(this),
+            WatchOrders: this.watchOrders.bind(this)
+        });
+        await this.health.addTo(this.server);
+
+        const address = `${this.options.host || '0.0.0.0'}:${this.options.port ?? 50051}`;
+        const port = await new Promise<number>((resolve, reject) => {
+            this.server.bindAsync(
+                address,
+                this.options.credentials || grpc.ServerCredentials.createInsecure(),
+                (error, port) => error ? reject(error) : resolve(port)
+            );
+        });
+
+        this.health.setStatus(ORDER_SERVICE, 'SERVING');
+        console.log(`Order gRPC server listening on port ${port}`);
+        return port;
+    }
+
+    // Watches are ended cleanly first; they would otherwise hold the graceful shutdown open
+    async stop(): Promise<void> {
+        this.health.drain();
+        this.watches.forEach(call => call.end());
+
+        await new Promise<void>(resolve => {
+            const timer = setTimeout(() => {
+                console.warn('gRPC calls still running at shutdown, cancelling them');
+                this.server.forceShutdown();
+                resolve();
+            }, this.options.shutdownTimeoutMs ?? 10000);
+
+            this.server.tryShutdown(() => {
+                clearTimeout(timer);
+                resolve();
+            });
+        });
+    }
+
+    private createOrder(
+        call: grpc.ServerUnaryCall<CreateOrderRequest, { orderId: string }>,
+        callback: grpc.sendUnaryData<{ orderId: string }>
+    ): void {
+        if (!call.request.customerId || call.request.items.length === 0) {
+            callback(grpcError(grpc.status.INVALID_ARGUMENT, 'An order needs a customer id and at least one item'));
+            return;
+        }
+
+        this.backend.createOrder(call.request).then(
+            orderId => callback(null, { orderId }),
+            () => callback(grpcError(grpc.status.INTERNAL, 'Failed to create order'))
+        );
+    }
+
+    private getOrder(
+        call: grpc.ServerUnaryCall<{ orderId: string }, OrderEvent>,
+        callback: grpc.sendUnaryData<OrderEvent>
+    ): void {
+        if (!call.request.orderId) {
+            callback(grpcError(grpc.status.INVALID_ARGUMENT, 'order_id is required'));
+            return;
+        }
+
+        this.backend.getOrder(call.request.orderId).then(
+            order => order
+                ? callback(null, order)
+                : callback(grpcError(grpc.status.NOT_FOUND, `Order ${call.request.orderId} not found`)),
+            () => callback(grpcError(grpc.status.INTERNAL, 'Failed to retrieve order'))
+        );
+    }
+
+    // A caller that stops reading is cut off with RESOURCE_EXHAUSTED rather than buffering
+    // every order for it; it can reconnect and re-read what it missed with GetOrder
+    private watchOrders(call: grpc.ServerWritableStream<WatchOrdersRequest, OrderEvent>): void {
+        const orderIds = new Set(call.request.orderIds);
+        const { customerId } = call.request;
+        if (orderIds.size === 0 && !customerId) {
+            call.emit('error', grpcError(grpc.status.INVALID_ARGUMENT, 'order_ids or customer_id is required'));
+            return;
+        }
+        const maxBacklog = this.options.maxWatchBacklog ?? 1000;
+
+        const unsubscribe = this.backend.watchOrders(order => {
+            if (orderIds.size > 0 && !orderIds.has(order.orderId)) return;
+            if (customerId && order.customerId !== customerId) return;
+
+            if (call.writableLength >= maxBacklog) {
+                finish();
+                call.emit('error', grpcError(grpc.status.RESOURCE_EXHAUSTED, `More than ${maxBacklog} orders behind`));
+                return;
+            }
+            call.write(order);
+        });
+
+        const finish = () => {
+            unsubscribe();
+            this.watches.delete(call);
+        };
+        this.watches.add(call);
+        call.on('cancelled', finish);
+        call.on('finish', finish);
+    }
+}
@@ -0,0 +1,112 @@
+// shared-libs/grpc/protobuf-service.ts
+import * as grpc from '@grpc/grpc-js';
+import * as path from 'path';
+import { decodeMessage, encodeMessage, ProtobufSchemas } from '../serialization/protobuf-schemas';
+
+export const HEALTH_SERVICE = 'grpc.health.v1.Health';
+export const HEALTH_PROTO = path.resolve(__dirname, '../schemas/grpc_health.proto');
+
+export type ServingStatus = 'UNKNOWN' | 'SERVING' | 'NOT_SERVING' | 'SERVICE_UNKNOWN';
+
+interface HealthCheckRequest {
+    service: string;
+}
+
+interface HealthCheckResponse {
+    status: ServingStatus;
+}
+
+// Built from the same .proto files and conversions as BinaryCodec rather than with
+// @grpc/proto-loader, so a message sent over gRPC is byte-for-byte what the codec writes
+// to Kafka or Redis and decodes to the same object (camelCase fields, int64 as strings).
+// Handlers and client methods are keyed by the method name as declared, e.g. `GetOrder`.
+export async function loadServiceDefinition(
+    schemas: ProtobufSchemas,
+    serviceName: string
+): Promise<grpc.ServiceDefinition> {
+    const service = await schemas.resolveService(serviceName);
+    const definition: Record<string, grpc.MethodDefinition<unknown, unknown>> = {};
+
+    for (const method of service.methodsArray) {
+        // Resolved when the schemas were loaded
+        const requestType = method.resolvedRequestType!;
+        const responseType = method.resolvedResponseType!;
+        definition[method.name] = {
+            path: `/${service.fullName.slice(1)}/${method.name}`,
+            requestStream: method.requestStream === true,
+            responseStream: method.responseStream === true,
+            requestSerialize: (value: unknown) => encodeMessage(requestType, value),
+            requestDeserialize: (buffer: Buffer) => decodeMessage(requestType, buffer),
+            responseSerialize: (value: unknown) => encodeMessage(responseType, value),
+            responseDeserialize: (buffer: Buffer) => decodeMessage(responseType, buffer)
+        };
+    }
+    return definition;
+}
+
+export function grpcError(code: grpc.status, details: string): Partial<grpc.StatusObject> {
+    return { code, details };
+}
+
+export function deadlineAfter(ms: number): Date {
+    return new Date(Date.now() + ms);
+}
+
+// grpc.health.v1.Health. The empty service name stands for the server as a whole, which
+// is SERVING from the start; the services it hosts are added with setStatus().
+export class HealthService {
+    private statuses = new Map<string, ServingStatus>([['', 'SERVING']]);
+    private watchers = new Map<string, Set<grpc.ServerWritableStream<HealthCheckRequest, HealthCheckResponse>>>();
+
+    async addTo(server: grpc.Server, schemas = new ProtobufSchemas({ protoFiles: [HEALTH_PROTO] })): Promise<void> {
+        server.addService(await loadServiceDefinition(schemas, HEALTH_SERVICE), {
+            Check: this.check.bind(this),
+            Watch: this.watch.bind(this)
+        });
+    }
+
+    setStatus(service: string, status: ServingStatus): void {
+        if (this.statuses.get(service) === status) return;
+        this.statuses.set(service, status);
+        this.watchers.get(service)?.forEach(call => call.write({ status }));
+    }
+
+    // Before stopping the server, so load balancers and probes move away first. Watch
+    // streams are ended after they hear it, or they would hold a graceful shutdown open.
+    drain(): void {
+        for (const service of this.statuses.keys()) {
+            this.setStatus(service, 'NOT_SERVING');
+        }
+        this.watchers.forEach(watchers => watchers.forEach(call => call.end()));
+    }
+
+    private check(
+        call: grpc.ServerUnaryCall<HealthCheckRequest, HealthCheckResponse>,
+        callback: grpc.sendUnaryData<HealthCheckResponse>
+    ): void {
+        const status = this.statuses.get(call.request.service);
+        if (status) {
+            callback(null, { status });
+        } else {
+            callback(grpcError(grpc.status.NOT_FOUND, `Unknown service ${call.request.service}`));
+        }
+    }
+
+    private watch(call: grpc.ServerWritableStream<HealthCheckRequest, HealthCheckResponse>): void {
+        const { service } = call.request;
+        let watchers = this.watchers.get(service);
+        if (!watchers) {
+            watchers = new Set();
+            this.watchers.set(service, watchers);
+        }
+        watchers.add(call);
+        call.write({ status: this.statuses.get(service) || 'SERVICE_UNKNOWN' });
+
+        call.on('cancelled', () => {
+            watchers!.delete(call);
+            if (watchers!.size === 0) {
+                this.watchers.delete(service);
+            }
+        });
+    }
+}
@@ -1,12 +1,57 @@
 // kafka-services/src/kafka-binary-client.ts
-import { Kafka, Producer, Consumer, EachMessagePayload } from 'kafkajs';
-import { BinaryCodec, SerializationFormat } from '../shared-libs/serialization/binary-codec';
+import { randomUUID } from 'crypto';
+import { Admin, Kafka, Producer, Consumer, EachBatchPayload, EachMessagePayload, KafkaMessage, Message, TopicMessages } from 'kafkajs';
+import { BinaryCodec, ProtobufCodecOptions, SerializationFormat, SerializationMetrics } from '../shared-libs/serialization/binary-codec';
+import { Histogram, MetricsSink, NoopMetricsSink } from '../shared-libs/metrics/metrics';
+import { SchemaRegistryClient } from '../shared-libs/schema-registry/schema-registry';
+import { CompressionOptions } from '../shared-libs/serialization/compression';
+import { ProtectionOptions } from '../shared-libs/serialization/payload-protection';
+import { FormatPolicy } from '../shared-libs/serialization/format-policy';
+import { jsonReplacer, MessagePackExtensions } from '../shared-libs/serialization/msgpack-extensions';
+import {
+    backoffDelay,
+    DeadLetterContext,
+    deadLetterMessage,
+    DeadLetterOptions,
+    replayDeadLetters,
+    ReplayOptions,
+    resolveRetryPolicy,
+    waitWithHeartbeat
+} from './dead-letter';
+import {
+    DEFAULT_DEDUPE_LEASE_SECONDS,
+    DEFAULT_DEDUPE_TTL_SECONDS,
+    DedupeOptions,
+    dedupeId,
+    DuplicateInFlightError,
+    EVENT_ID_HEADER,
+    IN_FLIGHT_RECHECK_MS
+} from './dedupe';
+import {
+    CodecValidationError,
+    ValidationDirection,
+    ValidationPolicy
+} from '../shared-libs/serialization/schema-validator';
 
 export interface KafkaBinaryConfig {
     clientId: string;
     brokers: string[];
     serializationFormat?: SerializationFormat;
     fallbackJson?: boolean;
+    envelope?: boolean; // Write the self-describing wire header (default true)
+    compression?: CompressionOptions;
+    protection?: ProtectionOptions; // Encrypt and/or sign values; key ids travel in the envelope
+    protobuf?: ProtobufCodecOptions;
+    schemaRegistry?: SchemaRegistryClient; // Values use the `<topic>-value` subject (`<topic>-value-protobuf` or `-json` for a second schema type)
+    validate?: boolean | ValidationDirection;
+    onValidationError?: ValidationPolicy; // Default 'reject'; 'quarantine' diverts to `<topic>.quarantine`
+    deadLetter?: DeadLetterOptions | false; // Retry then dead-letter failed messages (on by default)
+    metrics?: MetricsSink;
+    extensions?: MessagePackExtensions;
+    formatPolicy?: FormatPolicy; // Per-topic rollout and shadowing of a new format; keyed messages stay on one format
+    idempotent?: boolean;        // Broker-side dedupe of producer retries (acks=all, one request in flight)
+    transactionalId?: string;    // Enables sendTransaction(); implies idempotent. Unique per producer, stable across its restarts
+    dedupe?: DedupeOptions;      // Skip redelivered messages already processed by this consumer group
 }
 
 export interface BinaryMessage<T = any> {
@@ -14,32 +59,121 @@ export interface BinaryMessage<T = any> {
     value: T;
     headers?: Record<string, string>;
     timestamp?: string;
+    format?: SerializationFormat; // Overrides serializationFormat and any format policy for this message
 }
 
+export interface TopicBatch<T = any> {
+    topic: string;
+    messages: BinaryMessage<T>[];
+}
+
+export interface ReceivedMessage<T = any> {
+    key?: string;
+    value: T;
+    headers: Record<string, string>;
+    partition: number;
+    offset: string;
+    timestamp: string;
+}
+
+export interface BatchContext {
+    // Marks everything up to and including `offset` as processed; a later failure only retries the rest
+    resolveOffset(offset: string): void;
+    heartbeat(): Promise<void>;
+}
+
+export interface PartitionLag {
+    topic: string;
+    partition: number;
+    committed: string; // -1 when the group has committed nothing
+    high: string;
+    lag: number;       // Messages the group has yet to process
+}
+
+export type BatchHandler<T> = (topic: string, messages: ReceivedMessage<T>[], context: BatchContext) => Promise<void>;
+
+export interface BatchSerializationMetrics extends SerializationMetrics {
+    messageCount: number;
+}
+
+const QUARANTINE_SUFFIX = '.quarantine';
+const BATCH_SIZE_BUCKETS = [1, 5, 10, 25, 50, 100, 250, 500, 1000, 5000];
+const BATCH_BYTES_BUCKETS = [1024, 16384, 65536, 262144, 1048576, 4194304, 16777216];
+
 export class KafkaBinaryClient {
     private kafka: Kafka;
     private producer: Producer;
+    private transactionalProducer?: Producer;
     private consumer: Consumer;
     private codec: BinaryCodec;
+    private useSchemaRegistry: boolean;
+    private validationPolicy: ValidationPolicy;
+    private deadLetterOptions?: DeadLetterOptions;
+    private formatPolicy?: FormatPolicy;
+    private batchMessages: Histogram;
+    private batchBytes: Histogram;
+    private groupId: string;
+    private dedupe?: Required<DedupeOptions>;
+    private transactionQueue: Promise<unknown> = Promise.resolve();
+    private subscribed = false;
 
     constructor(config: KafkaBinaryConfig) {
+        if (config.formatPolicy && config.envelope === false) {
+            throw new Error('A format policy mixes formats on a topic, which requires the wire envelope');
+        }
+
         this.kafka = new Kafka({
             clientId: config.clientId,
             brokers: config.brokers,
         });
         
-        this.producer = this.kafka.producer();
-        this.consumer = this.kafka.consumer({ groupId: `${config.clientId}-consumer` });
+        // kafkajs only sends from a transactional producer inside an open transaction, so plain
+        // sends, dead letters and quarantines go through a second, idempotent-only producer
+        const idempotent = config.idempotent || config.transactionalId !== undefined;
+        this.producer = this.kafka.producer(idempotent ? { idempotent: true, maxInFlightRequests: 1 } : {});
+        if (config.transactionalId !== undefined) {
+            this.transactionalProducer = this.kafka.producer({
+                idempotent: true,
+                maxInFlightRequests: 1,
+                transactionalId: config.transactionalId
+            });
+        }
+        this.groupId = `${config.clientId}-consumer`;
+        this.consumer = this.kafka.consumer({ groupId: this.groupId });
         
         this.codec = new BinaryCodec({
             formatType: config.serializationFormat || 'messagepack',
-            fallbackJson: config.fallbackJson !== false
+            fallbackJson: config.fallbackJson !== false,
+            envelope: config.envelope !== false,
+            compression: config.compression,
+            protection: config.protection,
+            metrics: config.metrics,
+            extensions: config.extensions,
+            protobuf: config.protobuf,
+            registry: config.schemaRegistry,
+            validate: config.validate
         });
+        this.useSchemaRegistry = config.schemaRegistry !== undefined;
+        this.validationPolicy = config.onValidationError || 'reject';
+        this.deadLetterOptions = config.deadLetter === false ? undefined : config.deadLetter || {};
+        this.formatPolicy = config.formatPolicy;
+        this.dedupe = config.dedupe && {
+            ttlSeconds: DEFAULT_DEDUPE_TTL_SECONDS,
+            leaseSeconds: DEFAULT_DEDUPE_LEASE_SECONDS,
+            ...config.dedupe
+        };
+
+        const metrics = config.metrics || new NoopMetricsSink();
+        this.batchMessages = metrics.histogram(
+            'kafka_producer_batch_messages', 'Messages per sendBatch request', BATCH_SIZE_BUCKETS);
+        this.batchBytes = metrics.histogram(
+            'kafka_producer_batch_bytes', 'Encoded bytes per sendBatch request', BATCH_BYTES_BUCKETS);
     }
 
     async connect(): Promise<void> {
         await Promise.all([
             this.producer.connect(),
+            this.transactionalProducer?.connect(),
             this.consumer.connect()
         ]);
     }
@@ -47,61 +181,473 @@ export class KafkaBinaryClient {
     async disconnect(): Promise<void> {
         await Promise.all([
             this.producer.disconnect(),
+            this.transactionalProducer?.disconnect(),
             this.consumer.disconnect()
         ]);
     }
 
     async sendMessage<T>(topic: string, message: BinaryMessage<T>): Promise<void> {
         try {
-            const { buffer, metrics } = await this.codec.encode(message.value);
+            const encoded = await this.encodeValue(topic, message);
+            if (!encoded) return; // Quarantined
+            const { buffer, metrics } = encoded;
             
             await this.producer.send({
                 topic,
-                messages: [{
-                    key: message.key,
-                    value: buffer,
-                    headers: {
-                        ...message.headers,
-                        'content-encoding': this.codec.formatType,
-                        'original-size': metrics.originalSize.toString(),
-                        'compressed-size': metrics.compressedSize.toString(),
-                        'serialization-time': metrics.serializationTimeMs.toString()
-                    },
-                    timestamp: message.timestamp
-                }]
+                messages: [this.toKafkaMessage(message, buffer, metrics)]
             });
-            
-            // Emit metrics for monitoring
-            this.emitSerializationMetrics('kafka-producer', metrics);
         } catch (error) {
             console.error('Failed to send binary message:', error);
             throw error;
         }
     }
 
+    // Encodes every message concurrently and sends all topics in a single produce request
+    async sendBatch<T>(topic: string, messages: BinaryMessage<T>[]): Promise<void>;
+    async sendBatch<T>(batches: TopicBatch<T>[]): Promise<void>;
+    async sendBatch<T>(topicOrBatches: string | TopicBatch<T>[], messages: BinaryMessage<T>[] = []): Promise<void> {
+        const batches = typeof topicOrBatches === 'string' ? [{ topic: topicOrBatches, messages }] : topicOrBatches;
+
+        try {
+            const { topicMessages, metrics } = await this.encodeBatches(batches);
+            if (topicMessages.length === 0) return;
+
+            await this.producer.sendBatch({ topicMessages });
+            this.recordBatch(metrics);
+        } catch (error) {
+            console.error('Failed to send binary batch:', error);
+            throw error;
+        }
+    }
+
+    // Like sendBatch, but all-or-nothing: read_committed consumers see every message or none.
+    // Needs `transactionalId`; transactions on one producer run one after another.
+    async sendTransaction<T>(batches: TopicBatch<T>[]): Promise<void> {
+        try {
+            const { topicMessages, metrics } = await this.encodeBatches(batches);
+            if (topicMessages.length === 0) return;
+
+            await this.inTransaction(topicMessages);
+            this.recordBatch(metrics);
+        } catch (error) {
+            console.error('Failed to send binary transaction:', error);
+            throw error;
+        }
+    }
+
+    // Encoded, headed Kafka messages, for callers such as the outbox that publish them later
+    async encodeMessages<T>(topic: string, messages: BinaryMessage<T>[]): Promise<Message[]> {
+        const { topicMessages } = await this.encodeBatches([{ topic, messages }]);
+        return topicMessages[0]?.messages || [];
+    }
+
+    // Publishes what encodeMessages() returned, in a transaction when the producer has a transactionalId
+    async sendEncoded(topicMessages: TopicMessages[]): Promise<void> {
+        if (this.transactionalProducer) {
+            await this.inTransaction(topicMessages);
+        } else {
+            await this.producer.sendBatch({ topicMessages });
+        }
+    }
+
     async subscribe<T>(
         topics: string[], 
         messageHandler: (topic: string, message: T, headers?: Record<string, string>) => Promise<void>
     ): Promise<void> {
+        this.startSubscription();
         await this.consumer.subscribe({ topics });
         
         await this.consumer.run({
-            eachMessage: async ({ topic, message, partition }: EachMessagePayload) => {
+            eachMessage: async ({ topic, message, partition, heartbeat }: EachMessagePayload) => {
+                if (!message.value) return;
+
+                const headers = this.parseHeaders(message.headers);
+                let decoded: { value: T } | null;
+
                 try {
-                    if (!message.value) return;
-                    
-                    const decodedValue = await this.codec.decode<T>(message.value);
-                    const headers = this.parseHeaders(message.headers);
-                    
-                    await messageHandler(topic, decodedValue, headers);
+                    decoded = await this.decodeMessage<T>(topic, message.value, message.key, headers);
                 } catch (error) {
-                    console.error(`Failed to process message from topic ${topic}:`, error);
-                    // Implement dead letter queue or retry logic here
+                    // A payload that can't be decoded won't decode on retry either
+                    console.error(`Failed to decode message from topic ${topic}:`, error);
+                    await this.deadLetter({ topic, partition, message, error, attempts: 0, stage: 'decode' });
+                    return;
+                }
+                if (!decoded) return; // Quarantined
+                const { value } = decoded;
+
+                const policy = this.retryPolicyFor(topic);
+                const id = this.dedupeIdFor(message.key?.toString(), headers);
+                for (let attempt = 1; ;) {
+                    try {
+                        if (id && !await this.claim(id)) {
+                            return; // Already processed
+                        }
+                        await this.runClaimed(id, () => messageHandler(topic, value, headers));
+                        return;
+                    } catch (error) {
+                        if (error instanceof DuplicateInFlightError) {
+                            await waitWithHeartbeat(IN_FLIGHT_RECHECK_MS, heartbeat);
+                            continue;
+                        }
+                        if (attempt >= policy.maxAttempts) {
+                            console.error(`Failed to process message from topic ${topic} after ${attempt} attempts:`, error);
+                            await this.deadLetter({ topic, partition, message, error, attempts: attempt, stage: 'handler' });
+                            return;
+                        }
+                        await waitWithHeartbeat(backoffDelay(policy, attempt), heartbeat);
+                        attempt++;
+                    }
+                }
+            }
+        });
+    }
+
+    // eachBatch-based consumption: the handler gets every decodable message of a partition batch at once
+    // `fromBeginning` only applies to partitions the group has no committed offset for
+    async subscribeBatch<T>(topics: string[], batchHandler: BatchHandler<T>, fromBeginning = false): Promise<void> {
+        this.startSubscription();
+        await this.consumer.subscribe({ topics, fromBeginning });
+
+        await this.consumer.run({
+            eachBatchAutoResolve: false,
+            eachBatch: async ({ batch, resolveOffset, heartbeat, isRunning, isStale }: EachBatchPayload) => {
+                const { topic, partition } = batch;
+                const rawByOffset = new Map<string, KafkaMessage>();
+                let pending: ReceivedMessage<T>[] = [];
+
+                for (const message of batch.messages) {
+                    if (!message.value) continue;
+                    const headers = this.parseHeaders(message.headers);
+
+                    try {
+                        const decoded = await this.decodeMessage<T>(topic, message.value, message.key, headers);
+                        if (!decoded) continue; // Quarantined
+                        rawByOffset.set(message.offset, message);
+                        pending.push({
+                            key: message.key?.toString(),
+                            value: decoded.value,
+                            headers,
+                            partition,
+                            offset: message.offset,
+                            timestamp: message.timestamp
+                        });
+                    } catch (error) {
+                        console.error(`Failed to decode message from topic ${topic}:`, error);
+                        await this.deadLetter({ topic, partition, message, error, attempts: 0, stage: 'decode' });
+                    }
+                }
+
+                const policy = this.retryPolicyFor(topic);
+                for (let attempt = 1; pending.length > 0 && isRunning() && !isStale();) {
+                    let lastResolved: bigint | undefined;
+                    const context: BatchContext = {
+                        resolveOffset: offset => {
+                            resolveOffset(offset);
+                            lastResolved = BigInt(offset);
+                        },
+                        heartbeat
+                    };
+
+                    const claims = new Map<string, string>(); // Offset -> dedupe id claimed by this attempt
+                    try {
+                        pending = await this.claimBatch(pending, claims);
+                        if (pending.length > 0) {
+                            await batchHandler(topic, pending, context);
+                        }
+                        await this.settleClaims(claims, () => true);
+                        pending = [];
+                    } catch (error) {
+                        if (error instanceof DuplicateInFlightError) {
+                            await waitWithHeartbeat(IN_FLIGHT_RECHECK_MS, heartbeat);
+                            continue;
+                        }
+                        const resolved = lastResolved;
+                        await this.settleClaims(claims, offset => resolved !== undefined && BigInt(offset) <= resolved);
+                        if (resolved !== undefined) {
+                            pending = pending.filter(m => BigInt(m.offset) > resolved);
+                        }
+
+                        if (attempt >= policy.maxAttempts) {
+                            console.error(`Failed to process batch from topic ${topic} after ${attempt} attempts:`, error);
+                            for (const m of pending) {
+                                await this.deadLetter({
+                                    topic, partition, message: rawByOffset.get(m.offset)!, error, attempts: attempt, stage: 'handler'
+                                });
+                            }
+                            pending = [];
+                        } else {
+                            await waitWithHeartbeat(backoffDelay(policy, attempt), heartbeat);
+                            attempt++;
+                        }
+                    }
+                }
+
+                // Left unresolved when the consumer is stopping or rebalancing, so the rest is redelivered
+                if (pending.length === 0) {
+                    resolveOffset(batch.lastOffset());
                 }
+                await heartbeat();
+            }
+        });
+    }
+
+    // How far this client's consumer group is behind on each partition of `topics`
+    async consumerLag(topics: string[]): Promise<PartitionLag[]> {
+        return await this.withAdmin(async admin => {
+            const committed = await admin.fetchOffsets({ groupId: this.groupId, topics });
+            const lag: PartitionLag[] = [];
+            for (const { topic, partitions } of committed) {
+                const committedByPartition = new Map(partitions.map(p => [p.partition, p.offset]));
+                for (const { partition, high, low } of await admin.fetchTopicOffsets(topic)) {
+                    const offset = committedByPartition.get(partition) ?? '-1';
+                    // Nothing committed yet: everything still in the log counts
+                    const from = BigInt(offset) < BigInt(0) ? BigInt(low) : BigInt(offset);
+                    lag.push({ topic, partition, committed: offset, high, lag: Number(BigInt(high) - from) });
+                }
+            }
+            return lag;
+        });
+    }
+
+    // Runs `fn` with a connected admin client, e.g. to create topics
+    async withAdmin<R>(fn: (admin: Admin) => Promise<R>): Promise<R> {
+        const admin = this.kafka.admin();
+        await admin.connect();
+        try {
+            return await fn(admin);
+        } finally {
+            await admin.disconnect();
+        }
+    }
+
+    // Re-publishes the contents of a dead-letter topic to the topics the messages came from
+    async replayDeadLetters(deadLetterTopic: string, options?: ReplayOptions): Promise<number> {
+        return await replayDeadLetters(this.kafka, this.producer, deadLetterTopic, options);
+    }
+
+    private toKafkaMessage<T>(message: BinaryMessage<T>, buffer: Buffer, metrics: SerializationMetrics): Message {
+        return {
+            key: message.key,
+            value: buffer,
+            headers: {
+                [EVENT_ID_HEADER]: randomUUID(),
+                ...message.headers,
+                'content-encoding': this.codec.detectFormat(buffer),
+                'content-compression': metrics.compression,
+                'original-size': metrics.originalSize.toString(),
+                'compressed-size': metrics.compressedSize.toString(),
+                'serialization-time': metrics.serializationTimeMs.toString()
+            },
+            timestamp: message.timestamp
+        };
+    }
+
+    private async decodeMessage<T>(
+        topic: string,
+        value: Buffer,
+        key: Buffer | null,
+        headers: Record<string, string>
+    ): Promise<{ value: T } | null> {
+        try {
+            const labels = { component: 'kafka-consumer', target: topic };
+            return { value: await this.codec.decode<T>(value, this.subjectFor(topic), { labels }) };
+        } catch (error) {
+            if (!(error instanceof CodecValidationError) || this.validationPolicy === 'reject') throw error;
+            if (this.validationPolicy === 'quarantine') {
+                await this.quarantine(topic, key?.toString(), value, headers, error);
+                return null;
             }
+            console.warn(`Delivering invalid message from ${topic}:`, error.issues);
+            return { value: error.value as T };
+        }
+    }
+
+    // Dedupe needs an event id: messages from producers that don't set one are always processed
+    private dedupeIdFor(key: string | undefined, headers: Record<string, string>): string | undefined {
+        const eventId = headers[EVENT_ID_HEADER];
+        return this.dedupe && eventId ? dedupeId(this.groupId, key, eventId) : undefined;
+    }
+
+    // False if the message was processed before; throws while another delivery holds it
+    private async claim(id: string): Promise<boolean> {
+        const result = await this.dedupe!.store.claim(id, this.dedupe!.leaseSeconds);
+        if (result === 'processing') {
+            throw new DuplicateInFlightError(id);
+        }
+        return result === 'claimed';
+    }
+
+    private async runClaimed(id: string | undefined, handler: () => Promise<void>): Promise<void> {
+        if (!id) {
+            await handler();
+            return;
+        }
+        let processed = false;
+        try {
+            await handler();
+            processed = true;
+        } finally {
+            await this.settleClaim(id, processed);
+        }
+    }
+
+    // Drops messages processed before and records the claims it takes in `claims`. If another
+    // delivery holds any of them, gives its claims back and throws so the batch is claimed again.
+    private async claimBatch<T>(messages: ReceivedMessage<T>[], claims: Map<string, string>): Promise<ReceivedMessage<T>[]> {
+        if (!this.dedupe) return messages;
+
+        const results = await Promise.all(messages.map(async message => {
+            const id = this.dedupeIdFor(message.key, message.headers);
+            return { message, id, result: id ? await this.dedupe!.store.claim(id, this.dedupe!.leaseSeconds) : 'claimed' };
+        }));
+        for (const { message, id, result } of results) {
+            if (id && result === 'claimed') claims.set(message.offset, id);
+        }
+
+        const inFlight = results.find(({ result }) => result === 'processing');
+        if (inFlight) {
+            await this.settleClaims(claims, () => false);
+            claims.clear();
+            throw new DuplicateInFlightError(inFlight.id!);
+        }
+        return results.filter(({ result }) => result === 'claimed').map(({ message }) => message);
+    }
+
+    // Completes the claims for offsets that were processed and releases the rest
+    private async settleClaims(claims: Map<string, string>, processed: (offset: string) => boolean): Promise<void> {
+        await Promise.all(Array.from(claims, ([offset, id]) => this.settleClaim(id, processed(offset))));
+    }
+
+    // A failure here is only logged: at worst the message is processed again once its claim lapses
+    private async settleClaim(id: string, processed: boolean): Promise<void> {
+        try {
+            if (processed) {
+                await this.dedupe!.store.complete(id, this.dedupe!.ttlSeconds);
+            } else {
+                await this.dedupe!.store.release(id);
+            }
+        } catch (error) {
+            console.warn(`Failed to record the outcome of message ${id}:`, error);
+        }
+    }
+
+    private async encodeBatches<T>(batches: TopicBatch<T>[]): Promise<{ topicMessages: TopicMessages[]; metrics: BatchSerializationMetrics }> {
+        const encodedBatches = await Promise.all(batches.map(async batch => ({
+            topic: batch.topic,
+            encoded: await Promise.all(batch.messages.map(async message => ({
+                message,
+                result: await this.encodeValue(batch.topic, message)
+            })))
+        })));
+
+        const allMetrics: SerializationMetrics[] = [];
+        const topicMessages = encodedBatches.map(({ topic, encoded }) => ({
+            topic,
+            messages: encoded.flatMap(({ message, result }) => {
+                if (!result) return []; // Quarantined
+                allMetrics.push(result.metrics);
+                return [this.toKafkaMessage(message, result.buffer, result.metrics)];
+            })
+        })).filter(batch => batch.messages.length > 0);
+
+        return { topicMessages, metrics: aggregateMetrics(allMetrics) };
+    }
+
+    // kafkajs allows one open transaction per producer
+    private async inTransaction(topicMessages: TopicMessages[]): Promise<void> {
+        const producer = this.transactionalProducer;
+        if (!producer) {
+            throw new Error('Transactions need a producer configured with a transactionalId');
+        }
+
+        const run = async () => {
+            const transaction = await producer.transaction();
+            try {
+                await transaction.sendBatch({ topicMessages });
+                await transaction.commit();
+            } catch (error) {
+                await transaction.abort();
+                throw error;
+            }
+        };
+        const result = this.transactionQueue.then(run, run);
+        this.transactionQueue = result.catch(() => undefined);
+        await result;
+    }
+
+    // The client has one consumer, and kafkajs can't add topics to a consumer once it runs.
+    // Consumer lag and dedupe are per consumer group, so a second subscription means a
+    // second client, with its own clientId.
+    private startSubscription(): void {
+        if (this.subscribed) {
+            throw new Error('This client is already subscribed; pass every topic to one subscribe() or subscribeBatch() call');
+        }
+        this.subscribed = true;
+    }
+
+    private async deadLetter(context: Omit<DeadLetterContext, 'detectedFormat'>): Promise<void> {
+        if (!this.deadLetterOptions) {
+            return; // Dead-lettering disabled: the message is dropped
+        }
+
+        const { deadLetterTopic } = this.retryPolicyFor(context.topic);
+        const detectedFormat = this.codec.detectFormat(context.message.value!);
+
+        // If this send fails the error propagates, the offset isn't committed and kafkajs redelivers
+        await this.producer.send({
+            topic: deadLetterTopic,
+            messages: [deadLetterMessage({ ...context, detectedFormat })]
         });
     }
 
+    private retryPolicyFor(topic: string) {
+        return resolveRetryPolicy(this.deadLetterOptions || {}, topic);
+    }
+
+    private async encodeValue<T>(topic: string, message: BinaryMessage<T>) {
+        const labels = { component: 'kafka-producer', target: topic };
+        const decision = message.format ? { format: message.format } : this.formatPolicy?.decide('kafka', topic, message.key);
+        try {
+            return await this.codec.encode(message.value, this.subjectFor(topic), { labels, ...decision });
+        } catch (error) {
+            if (!(error instanceof CodecValidationError) || this.validationPolicy === 'reject') throw error;
+            if (this.validationPolicy === 'log') {
+                console.warn(`Sending invalid message to ${topic}:`, error.issues);
+                return await this.codec.encode(message.value, this.subjectFor(topic), { validate: false, labels, ...decision });
+            }
+            const raw = Buffer.from(JSON.stringify(message.value, jsonReplacer), 'utf-8');
+            await this.quarantine(topic, message.key, raw, { ...message.headers, 'content-encoding': 'json' }, error);
+            return null;
+        }
+    }
+
+    private async quarantine(
+        topic: string,
+        key: string | undefined,
+        value: Buffer,
+        headers: Record<string, string> = {},
+        error: CodecValidationError
+    ): Promise<void> {
+        console.warn(`Quarantining invalid message from ${topic}:`, error.issues);
+        await this.producer.send({
+            topic: `${topic}${QUARANTINE_SUFFIX}`,
+            messages: [{
+                key,
+                value,
+                headers: {
+                    ...headers,
+                    'source-topic': topic,
+                    'validation-direction': error.direction,
+                    'validation-errors': JSON.stringify(error.issues)
+                }
+            }]
+        });
+    }
+
+    private subjectFor(topic: string): string | undefined {
+        return this.useSchemaRegistry ? `${topic}-value` : undefined;
+    }
+
     private parseHeaders(headers: any): Record<string, string> {
         const result: Record<string, string> = {};
         if (headers) {
@@ -112,8 +658,24 @@ export class KafkaBinaryClient {
         return result;
     }
 
-    private emitSerializationMetrics(component: string, metrics: SerializationMetrics): void {
-        // Integration with metrics collection (Prometheus, etc.)
-        console.log(`${component} serialization metrics:`, metrics);
+    // Per-message encode metrics are recorded by the codec; these describe the request as a whole
+    private recordBatch(metrics: BatchSerializationMetrics): void {
+        this.batchMessages.observe({ component: 'kafka-producer' }, metrics.messageCount);
+        this.batchBytes.observe({ component: 'kafka-producer' }, metrics.compressedSize);
     }
 }
+
+function aggregateMetrics(metrics: SerializationMetrics[]): BatchSerializationMetrics {
+    const originalSize = metrics.reduce((sum, m) => sum + m.originalSize, 0);
+    const compressedSize = metrics.reduce((sum, m) => sum + m.compressedSize, 0);
+    return {
+        messageCount: metrics.length,
+        originalSize,
+        encodedSize: metrics.reduce((sum, m) => sum + m.encodedSize, 0),
+        compressedSize,
+        // Payloads under the threshold stay uncompressed, so report the algorithm if any message used it
+        compression: metrics.find(m => m.compression !== 'none')?.compression || 'none',
+        compressionRatio: compressedSize > 0 ? originalSize / compressedSize : 1,
+        serializationTimeMs: metrics.reduce((sum, m) => sum + m.serializationTimeMs, 0)
+    };
+}
\ No newline at end of file
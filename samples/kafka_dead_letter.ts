@@ -0,0 +1,197 @@
+// kafka-services/src/dead-letter.ts
+import { IHeaders, Kafka, KafkaMessage, Producer } from 'kafkajs';
+
+export interface RetryPolicy {
+    maxAttempts: number;      // Handler invocations before dead-lettering, including the first
+    initialBackoffMs: number;
+    maxBackoffMs: number;
+    multiplier: number;
+}
+
+export interface TopicRetryPolicy extends Partial<RetryPolicy> {
+    deadLetterTopic?: string;
+}
+
+export interface DeadLetterOptions {
+    retry?: Partial<RetryPolicy>;
+    topics?: Record<string, TopicRetryPolicy>; // Per-topic overrides of `retry`
+    deadLetterSuffix?: string;                 // Default '.dlq'
+}
+
+export type DeadLetterStage = 'decode' | 'handler';
+
+export interface DeadLetterContext {
+    topic: string;
+    partition: number;
+    message: KafkaMessage;
+    error: unknown;
+    attempts: number;
+    stage: DeadLetterStage;
+    detectedFormat: string;
+}
+
+export interface ReplayOptions {
+    groupId?: string;
+    filter?: (headers: Record<string, string>) => boolean;
+}
+
+export const DEAD_LETTER_HEADERS = {
+    error: 'dlq-error',
+    errorType: 'dlq-error-type',
+    stage: 'dlq-stage',
+    attempts: 'dlq-attempts',
+    sourceTopic: 'dlq-source-topic',
+    sourcePartition: 'dlq-source-partition',
+    sourceOffset: 'dlq-source-offset',
+    detectedFormat: 'dlq-detected-format',
+    failedAt: 'dlq-failed-at'
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    initialBackoffMs: 200,
+    maxBackoffMs: 10000,
+    multiplier: 2
+};
+
+// Keep well under the consumer session timeout between heartbeats
+const HEARTBEAT_INTERVAL_MS = 3000;
+
+export function resolveRetryPolicy(options: DeadLetterOptions, topic: string): RetryPolicy & { deadLetterTopic: string } {
+    const { deadLetterTopic, ...overrides } = options.topics?.[topic] || {};
+    return {
+        ...DEFAULT_RETRY_POLICY,
+        ...options.retry,
+        ...overrides,
+        deadLetterTopic: deadLetterTopic || `${topic}${options.deadLetterSuffix || '.dlq'}`
+    };
+}
+
+// Exponential backoff with full jitter
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+    const ceiling = Math.min(policy.maxBackoffMs, policy.initialBackoffMs * Math.pow(policy.multiplier, attempt - 1));
+    return Math.round(Math.random() * ceiling);
+}
+
+export async function waitWithHeartbeat(delayMs: number, heartbeat: () => Promise<void>): Promise<void> {
+    let remaining = delayMs;
+    while (remaining > 0) {
+        const step = Math.min(remaining, HEARTBEAT_INTERVAL_MS);
+        await new Promise(resolve => setTimeout(resolve, step));
+        await heartbeat();
+        remaining -= step;
+    }
+}
+
+// The original bytes and headers are kept untouched so the message can be replayed as-is
+export function deadLetterMessage(context: DeadLetterContext) {
+    const { message, error } = context;
+    return {
+        key: message.key,
+        value: message.value,
+        timestamp: message.timestamp,
+        headers: {
+            ...message.headers,
+            [DEAD_LETTER_HEADERS.error]: error instanceof Error ? error.message : String(error),
+            [DEAD_LETTER_HEADERS.errorType]: error instanceof Error ? error.name : typeof error,
+            [DEAD_LETTER_HEADERS.stage]: context.stage,
+            [DEAD_LETTER_HEADERS.attempts]: context.attempts.toString(),
+            [DEAD_LETTER_HEADERS.sourceTopic]: context.topic,
+            [DEAD_LETTER_HEADERS.sourcePartition]: context.partition.toString(),
+            [DEAD_LETTER_HEADERS.sourceOffset]: message.offset,
+            [DEAD_LETTER_HEADERS.detectedFormat]: context.detectedFormat,
+            [DEAD_LETTER_HEADERS.failedAt]: new Date().toISOString()
+        }
+    };
+}
+
+// Re-publishes everything currently in a dead-letter topic to each message's source topic,
+// then stops. Returns the number of messages replayed.
+export async function replayDeadLetters(
+    kafka: Kafka,
+    producer: Producer,
+    deadLetterTopic: string,
+    options: ReplayOptions = {}
+): Promise<number> {
+    const groupId = options.groupId || `${deadLetterTopic}-replay`;
+
+    const admin = kafka.admin();
+    await admin.connect();
+    const [highWatermarks, committed] = await Promise.all([
+        admin.fetchTopicOffsets(deadLetterTopic),
+        admin.fetchOffsets({ groupId, topics: [deadLetterTopic] })
+    ]);
+    await admin.disconnect();
+
+    // Only wait on partitions that still hold messages this group hasn't replayed
+    const committedOffsets = new Map(
+        committed.flatMap(t => t.partitions).map(p => [p.partition, BigInt(p.offset)]));
+    const pending = new Map<number, bigint>();
+    for (const { partition, high, low } of highWatermarks) {
+        const start = committedOffsets.get(partition) ?? BigInt(-1);
+        const from = start < BigInt(0) ? BigInt(low) : start;
+        if (from < BigInt(high)) {
+            pending.set(partition, BigInt(high));
+        }
+    }
+    if (pending.size === 0) {
+        return 0;
+    }
+
+    const consumer = kafka.consumer({ groupId });
+    let replayed = 0;
+
+    try {
+        await consumer.connect();
+        await consumer.subscribe({ topics: [deadLetterTopic], fromBeginning: true });
+
+        await new Promise<void>((resolve, reject) => {
+            consumer.run({
+                eachMessage: async ({ partition, message }) => {
+                    const headers = stringHeaders(message.headers);
+                    const sourceTopic = headers[DEAD_LETTER_HEADERS.sourceTopic];
+
+                    if (sourceTopic && (!options.filter || options.filter(headers))) {
+                        await producer.send({
+                            topic: sourceTopic,
+                            messages: [{
+                                key: message.key,
+                                value: message.value,
+                                timestamp: message.timestamp,
+                                headers: withoutDeadLetterHeaders(message.headers)
+                            }]
+                        });
+                        replayed++;
+                    }
+
+                    const high = pending.get(partition);
+                    if (high !== undefined && BigInt(message.offset) + BigInt(1) >= high) {
+                        pending.delete(partition);
+                        if (pending.size === 0) resolve();
+                    }
+                }
+            }).catch(reject);
+        });
+    } finally {
+        await consumer.disconnect();
+    }
+
+    return replayed;
+}
+
+function stringHeaders(headers: IHeaders = {}): Record<string, string> {
+    const result: Record<string, string> = {};
+    Object.keys(headers).forEach(key => {
+        result[key] = headers[key]?.toString() || '';
+    });
+    return result;
+}
+
+function withoutDeadLetterHeaders(headers: IHeaders = {}): IHeaders {
+    const dlqHeaderNames = new Set(Object.values(DEAD_LETTER_HEADERS));
+    const result: IHeaders = {};
+    Object.keys(headers).forEach(key => {
+        if (!dlqHeaderNames.has(key)) result[key] = headers[key];
+    });
+    return result;
+}
\ No newline at end of file
@@ -0,0 +1,42 @@
+// kafka-services/src/dedupe.ts
+
+// Set on every produced message (and kept through the outbox and dead-letter replay), so a
+// redelivered message can be recognised by its key plus this id
+export const EVENT_ID_HEADER = 'event-id';
+
+export type ClaimResult = 'claimed' | 'processing' | 'done';
+
+// Where consumers record what they have processed; redis-client/dedupe-store.ts keeps it in Redis
+export interface DedupeStore {
+    // 'claimed' hands the id to this consumer until the lease runs out
+    claim(id: string, leaseSeconds: number): Promise<ClaimResult>;
+    complete(id: string, ttlSeconds: number): Promise<void>;
+    // After a failure, so the retry or the next delivery can claim it again
+    release(id: string): Promise<void>;
+}
+
+export interface DedupeOptions {
+    store: DedupeStore;
+    ttlSeconds?: number;   // How long a processed id is remembered (default 24h); longer than any redelivery
+    leaseSeconds?: number; // How long a claim blocks other deliveries of the same id (default 60)
+}
+
+export const DEFAULT_DEDUPE_TTL_SECONDS = 86400;
+export const DEFAULT_DEDUPE_LEASE_SECONDS = 60;
+export const IN_FLIGHT_RECHECK_MS = 1000; // How often a delivery waiting on another one checks its claim
+
+// Another delivery of the same message is being processed right now, e.g. by the previous
+// owner of a partition after a rebalance. That isn't a failure of this delivery, so it uses
+// none of its retry attempts: the consumer heartbeats and checks again until the other
+// delivery is done or its lease lapses, which bounds the wait by `leaseSeconds`.
+export class DuplicateInFlightError extends Error {
+    constructor(readonly dedupeId: string) {
+        super(`Message ${dedupeId} is already being processed`);
+        this.name = 'DuplicateInFlightError';
+    }
+}
+
+// Scoped to the consumer group, so every service still processes each message once
+export function dedupeId(groupId: string, key: string | undefined, eventId: string): string {
+    return `${groupId}:${key ?? ''}:${eventId}`;
+}
@@ -0,0 +1,239 @@
+// kafka-services/src/outbox.ts
+import { KafkaJSProtocolError, Message } from 'kafkajs';
+import * as msgpack from 'msgpack-lite';
+import { EVENT_ID_HEADER } from './dedupe';
+import { backoffDelay, RetryPolicy } from './dead-letter';
+import { BinaryMessage, KafkaBinaryClient } from './kafka-binary-client';
+
+export interface OutboxEntry {
+    id: string;       // The message's event id
+    payload: Buffer;  // Topic plus the encoded Kafka message, opaque to the store
+    attempts: number; // Failed publish attempts before this claim
+}
+
+export interface NewOutboxEntry extends Omit<OutboxEntry, 'attempts'> {
+    key?: string; // Topic plus message key; entries sharing one are published in the order added
+}
+
+// Durable storage for messages waiting to be published; redis-client/outbox-store.ts keeps it
+// in Redis, shared-libs/persistence/outbox-store.ts in Postgres next to the data it announces
+export interface OutboxStore {
+    add(entries: NewOutboxEntry[]): Promise<void>;
+    // Up to `limit` due entries in the order they were added, each hidden from other relays for
+    // `leaseMs`. An entry isn't due while an earlier one with its key is claimed or waiting to retry.
+    claim(limit: number, leaseMs: number): Promise<OutboxEntry[]>;
+    complete(ids: string[]): Promise<void>;
+    retry(id: string, delayMs: number): Promise<void>; // Counts a failed attempt
+    release(ids: string[]): Promise<void>;              // Due again straight away, without counting an attempt
+    fail(id: string): Promise<void>; // Out of attempts: kept aside for inspection, never relayed again
+}
+
+export interface OutboxOptions {
+    batchSize?: number;            // Entries per publish (default 100)
+    pollIntervalMs?: number;       // How often start() looks for due entries (default 1000)
+    leaseMs?: number;              // How long a claimed entry is hidden from other relays (default 30000)
+    retry?: Partial<RetryPolicy>;  // Backoff between publish attempts (default 20 attempts, 1s to 5min)
+}
+
+export const DEFAULT_OUTBOX_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 20,
+    initialBackoffMs: 1000,
+    maxBackoffMs: 300000,
+    multiplier: 2
+};
+
+interface OutboxPayload {
+    topic: string;
+    message: Message;
+}
+
+interface ClaimedEntry {
+    entry: OutboxEntry;
+    payload: OutboxPayload;
+}
+
+// Transactional outbox: messages are encoded and stored before anything else happens, then
+// relayed to Kafka with retries until they are published. Publishing is at least once (a
+// relay can die between sending and completing), so consumers deduplicate by event id.
+// Messages with the same key are published in the order they were enqueued.
+export class Outbox {
+    private options: Required<Omit<OutboxOptions, 'retry'>>;
+    private policy: RetryPolicy;
+    private timer?: NodeJS.Timeout;
+    private relaying?: Promise<void>;
+    private rerun = false;
+
+    constructor(private kafka: KafkaBinaryClient, private store: OutboxStore, options: OutboxOptions = {}) {
+        this.options = {
+            batchSize: options.batchSize || 100,
+            pollIntervalMs: options.pollIntervalMs || 1000,
+            leaseMs: options.leaseMs || 30000
+        };
+        this.policy = { ...DEFAULT_OUTBOX_RETRY_POLICY, ...options.retry };
+    }
+
+    // Resolves once the messages are stored, with their event ids; publishing starts straight
+    // away and the relay keeps retrying after that. The encoded bytes are what gets published,
+    // however late, so a format policy change doesn't touch messages already queued.
+    async enqueue<T>(topic: string, messages: BinaryMessage<T>[]): Promise<string[]> {
+        const entries = await this.prepare(topic, messages);
+        if (entries.length === 0) return []; // All quarantined
+
+        await this.store.add(entries);
+        this.flush();
+        return entries.map(entry => entry.id);
+    }
+
+    // For a store that can join the caller's own database transaction: the entries are added
+    // to it in the same transaction as the change they announce, then flush() after the commit
+    async prepare<T>(topic: string, messages: BinaryMessage<T>[]): Promise<NewOutboxEntry[]> {
+        const encoded = await this.kafka.encodeMessages(topic, messages);
+        return encoded.map(message => ({
+            id: String(message.headers![EVENT_ID_HEADER]),
+            payload: msgpack.encode({ topic, message } as OutboxPayload),
+            key: orderingKey(topic, message)
+        }));
+    }
+
+    // Relays what was just stored instead of waiting for the next poll
+    flush(): void {
+        this.wake();
+    }
+
+    start(): void {
+        if (this.timer) return;
+        this.timer = setInterval(() => this.wake(), this.options.pollIntervalMs);
+        this.timer.unref();
+        this.wake();
+    }
+
+    // Waits for a publish in progress; anything still queued is relayed after the next start()
+    async stop(): Promise<void> {
+        clearInterval(this.timer);
+        this.timer = undefined;
+        this.rerun = false;
+        await this.relaying;
+    }
+
+    // Publishes one batch of due entries and resolves to the number published. The batch is
+    // sent in one request (one transaction with a transactional producer); if that fails, its
+    // entries are sent one at a time so only the ones that fail are retried.
+    async relayOnce(): Promise<number> {
+        const entries = await this.store.claim(this.options.batchSize, this.options.leaseMs);
+        if (entries.length === 0) return 0;
+
+        const claimed: ClaimedEntry[] = [];
+        for (const entry of entries) {
+            try {
+                claimed.push({ entry, payload: msgpack.decode(entry.payload) });
+            } catch (error) {
+                console.error(`Dropping unreadable outbox entry ${entry.id}:`, error);
+                await this.store.fail(entry.id);
+            }
+        }
+        if (claimed.length === 0) return 0;
+
+        try {
+            await this.publish(claimed);
+        } catch (error) {
+            if (claimed.length === 1) {
+                await this.failed(claimed[0].entry, error);
+                return 0;
+            }
+            console.warn(`Failed to relay ${claimed.length} outbox messages together, relaying them one at a time:`, error);
+            return await this.relayEach(claimed);
+        }
+
+        // If this fails the entries are published again once their lease lapses
+        await this.store.complete(claimed.map(({ entry }) => entry.id));
+        return claimed.length;
+    }
+
+    // In claim order. Once one of a key's messages fails, the rest of that key's are put back
+    // rather than published ahead of it; the store holds them until it has been published.
+    private async relayEach(claimed: ClaimedEntry[]): Promise<number> {
+        const heldKeys = new Set<string>();
+        const held: string[] = [];
+        const published: string[] = [];
+
+        for (const { entry, payload } of claimed) {
+            const key = orderingKey(payload.topic, payload.message);
+            if (key !== undefined && heldKeys.has(key)) {
+                held.push(entry.id);
+                continue;
+            }
+            try {
+                await this.publish([{ entry, payload }]);
+                published.push(entry.id);
+            } catch (error) {
+                if (key !== undefined) heldKeys.add(key);
+                await this.failed(entry, error);
+            }
+        }
+
+        await this.store.release(held);
+        await this.store.complete(published);
+        return published.length;
+    }
+
+    private async publish(claimed: ClaimedEntry[]): Promise<void> {
+        const topicMessages = new Map<string, Message[]>();
+        for (const { payload } of claimed) {
+            topicMessages.set(payload.topic, [...(topicMessages.get(payload.topic) || []), payload.message]);
+        }
+        await this.kafka.sendEncoded(Array.from(topicMessages, ([topic, messages]) => ({ topic, messages })));
+    }
+
+    // A broker error no resend can fix fails the entry at once; anything else is retried
+    private async failed(entry: OutboxEntry, error: unknown): Promise<void> {
+        const attempts = entry.attempts + 1;
+        if (isPermanentSendError(error)) {
+            console.error(`Giving up on outbox message ${entry.id}:`, error);
+            await this.store.fail(entry.id);
+        } else if (attempts >= this.policy.maxAttempts) {
+            console.error(`Giving up on outbox message ${entry.id} after ${attempts} attempts:`, error);
+            await this.store.fail(entry.id);
+        } else {
+            console.error(`Failed to relay outbox message ${entry.id}:`, error);
+            await this.store.retry(entry.id, backoffDelay(this.policy, attempts));
+        }
+    }
+
+    // One relay loop at a time; a wake-up during it runs the loop again afterwards
+    private wake(): void {
+        if (this.relaying) {
+            this.rerun = true;
+            return;
+        }
+        this.relaying = this.drain().finally(() => {
+            this.relaying = undefined;
+            if (this.rerun) {
+                this.rerun = false;
+                this.wake();
+            }
+        });
+    }
+
+    private async drain(): Promise<void> {
+        try {
+            while (await this.relayOnce() === this.options.batchSize) {
+                // A full batch: there may be more due
+            }
+        } catch (error) {
+            console.error('Outbox relay failed:', error);
+        }
+    }
+}
+
+function orderingKey(topic: string, message: Message): string | undefined {
+    return message.key === null || message.key === undefined ? undefined : `${topic}/${message.key.toString()}`;
+}
+
+// kafkajs reports broker errors such as MESSAGE_TOO_LARGE or TOPIC_AUTHORIZATION_FAILED as
+// protocol errors that aren't retriable; when its own retries run out, the last one is the cause
+function isPermanentSendError(error: unknown): boolean {
+    for (let current = error; current instanceof Error; current = (current as { cause?: unknown }).cause) {
+        if (current instanceof KafkaJSProtocolError && !current.retriable) return true;
+    }
+    return false;
+}
@@ -0,0 +1,263 @@
+// kafka-services/src/transcoder-bridge.ts
+import * as fs from 'fs';
+import { Message } from 'kafkajs';
+import { Counter, MetricsSink, NoopMetricsSink } from '../shared-libs/metrics/metrics';
+import { ProtobufCodecOptions, SerializationFormat } from '../shared-libs/serialization/binary-codec';
+import { CompressionOptions } from '../shared-libs/serialization/compression';
+import { MessagePackExtensions } from '../shared-libs/serialization/msgpack-extensions';
+import { ProtectionOptions } from '../shared-libs/serialization/payload-protection';
+import { DeadLetterOptions } from './dead-letter';
+import { BatchContext, KafkaBinaryClient, PartitionLag, ReceivedMessage } from './kafka-binary-client';
+
+// Republishes a topic in another format, so producers and consumers of it can cut over one
+// service at a time: consumers move to the target topic, then producers switch format, then
+// the bridge is retired.
+export interface BridgeRoute {
+    source: string;
+    target: string;
+    format: SerializationFormat; // What the target is written in
+}
+
+export interface TranscoderBridgeOptions {
+    clientId: string;                   // Its consumer group (`<clientId>-consumer`) holds the checkpoints
+    brokers: string[];
+    routes: BridgeRoute[];              // A source may feed several targets
+    sourceFormat?: SerializationFormat; // How headerless source messages are read (default messagepack, with JSON fallback)
+    compression?: CompressionOptions;
+    protobuf?: ProtobufCodecOptions;
+    extensions?: MessagePackExtensions;
+    protection?: ProtectionOptions;     // Needs every key the sources were sealed with
+    deadLetter?: DeadLetterOptions;     // Where undecodable source messages go (default `<source>.dlq`)
+    transactionalId?: string;           // Publish each batch to all its targets atomically
+    fromBeginning?: boolean;            // Start a new bridge at the oldest retained message (default true)
+    createTargets?: boolean;            // Create missing targets with their source's partition count (default true)
+    lagIntervalMs?: number;             // How often to check and log lag (default 30s, 0 disables)
+    metrics?: MetricsSink;
+}
+
+export interface TranscodeFailure {
+    source: string;
+    target: string;
+    partition: number;
+    offset: string;
+    key?: string;
+    error: string;
+}
+
+export interface BridgeReport {
+    transcoded: Record<string, number>; // By `<source> -> <target>`
+    failed: Record<string, number>;
+    failures: TranscodeFailure[];       // The most recent 100
+    lag: PartitionLag[];                // As of the last lag check
+}
+
+export const TRANSCODED_FROM_HEADER = 'transcoded-from';
+
+const MAX_REPORTED_FAILURES = 100;
+
+// Messages keep their key (so the default partitioner puts them on the same partition as
+// long as the target has the same partition count), timestamp and headers; the format and
+// size headers are rewritten for the new encoding. A message that can't be re-encoded is
+// reported and skipped; one that can't be decoded is dead-lettered by KafkaBinaryClient and
+// counted in `serialization_decode_failures_total`. Offsets are committed once a batch is
+// published, so a restarted bridge resumes where it left off and republishes at most a batch.
+export class TranscoderBridge {
+    private client: KafkaBinaryClient;
+    private routes = new Map<string, BridgeRoute[]>();
+    private options: TranscoderBridgeOptions;
+    private messages: Counter;
+    private report: BridgeReport = { transcoded: {}, failed: {}, failures: [], lag: [] };
+    private lagTimer?: NodeJS.Timeout;
+
+    constructor(options: TranscoderBridgeOptions) {
+        for (const route of options.routes) {
+            if (route.source === route.target) {
+                throw new Error(`Bridge route ${route.source} would republish into its own source`);
+            }
+            if (this.routes.get(route.source)?.some(existing => existing.target === route.target)) {
+                throw new Error(`Duplicate bridge route ${routeName(route)}`);
+            }
+            this.routes.set(route.source, [...(this.routes.get(route.source) || []), route]);
+        }
+
+        this.options = options;
+        this.client = new KafkaBinaryClient({
+            clientId: options.clientId,
+            brokers: options.brokers,
+            serializationFormat: options.sourceFormat,
+            compression: options.compression,
+            protobuf: options.protobuf,
+            extensions: options.extensions,
+            protection: options.protection,
+            deadLetter: options.deadLetter,
+            transactionalId: options.transactionalId,
+            metrics: options.metrics
+        });
+        this.messages = (options.metrics || new NoopMetricsSink()).counter(
+            'kafka_bridge_messages_total', 'Messages republished by the transcoder bridge, by outcome');
+    }
+
+    async start(): Promise<void> {
+        await this.client.connect();
+        if (this.options.createTargets !== false) {
+            await this.createTargets();
+        }
+
+        await this.client.subscribeBatch<unknown>(
+            Array.from(this.routes.keys()),
+            (topic, messages, context) => this.transcodeBatch(topic, messages, context),
+            this.options.fromBeginning !== false
+        );
+
+        const interval = this.options.lagIntervalMs ?? 30000;
+        if (interval > 0) {
+            this.lagTimer = setInterval(() => void this.checkLag(), interval);
+            this.lagTimer.unref();
+        }
+    }
+
+    async stop(): Promise<void> {
+        clearInterval(this.lagTimer);
+        await this.client.disconnect();
+    }
+
+    async lag(): Promise<PartitionLag[]> {
+        this.report.lag = await this.client.consumerLag(Array.from(this.routes.keys()));
+        return this.report.lag;
+    }
+
+    stats(): BridgeReport {
+        return {
+            transcoded: { ...this.report.transcoded },
+            failed: { ...this.report.failed },
+            failures: [...this.report.failures],
+            lag: [...this.report.lag]
+        };
+    }
+
+    // Every route of the batch is published in one request, then the batch is checkpointed.
+    // If publishing fails the whole batch is retried, so targets may see a message twice.
+    private async transcodeBatch(topic: string, messages: ReceivedMessage<unknown>[], context: BatchContext): Promise<void> {
+        const topicMessages: Array<{ topic: string; messages: Message[] }> = [];
+        const published: Array<[BridgeRoute, number]> = [];
+
+        for (const route of this.routes.get(topic) || []) {
+            const encoded = await Promise.all(messages.map(async message => {
+                try {
+                    return await this.client.encodeMessages(route.target, [{
+                        key: message.key,
+                        value: message.value,
+                        timestamp: message.timestamp,
+                        format: route.format,
+                        headers: {
+                            ...message.headers,
+                            [TRANSCODED_FROM_HEADER]: `${topic}/${message.partition}/${message.offset}`
+                        }
+                    }]);
+                } catch (error) {
+                    this.recordFailure(route, message, error);
+                    return [];
+                }
+            }));
+
+            const routeMessages = encoded.flat();
+            if (routeMessages.length > 0) {
+                topicMessages.push({ topic: route.target, messages: routeMessages });
+            }
+            published.push([route, routeMessages.length]);
+        }
+
+        if (topicMessages.length > 0) {
+            await this.client.sendEncoded(topicMessages);
+        }
+        for (const [route, count] of published) {
+            this.report.transcoded[routeName(route)] = (this.report.transcoded[routeName(route)] || 0) + count;
+            this.messages.inc({ source: route.source, target: route.target, outcome: 'transcoded' }, count);
+        }
+        context.resolveOffset(messages[messages.length - 1].offset);
+    }
+
+    private recordFailure(route: BridgeRoute, message: ReceivedMessage<unknown>, error: unknown): void {
+        const name = routeName(route);
+        const reason = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to transcode ${route.source}/${message.partition}/${message.offset} for ${route.target}:`, reason);
+
+        this.report.failed[name] = (this.report.failed[name] || 0) + 1;
+        this.report.failures.push({
+            source: route.source,
+            target: route.target,
+            partition: message.partition,
+            offset: message.offset,
+            key: message.key,
+            error: reason
+        });
+        if (this.report.failures.length > MAX_REPORTED_FAILURES) {
+            this.report.failures.shift();
+        }
+        this.messages.inc({ source: route.source, target: route.target, outcome: 'failed' });
+    }
+
+    private async createTargets(): Promise<void> {
+        await this.client.withAdmin(async admin => {
+            const existing = new Set(await admin.listTopics());
+            const missing = this.options.routes.filter(route => !existing.has(route.target));
+            if (missing.length === 0) return;
+
+            const sources = Array.from(new Set(missing.map(route => route.source)));
+            const { topics } = await admin.fetchTopicMetadata({ topics: sources });
+            const partitions = new Map(topics.map(topic => [topic.name, topic.partitions.length]));
+
+            await admin.createTopics({
+                waitForLeaders: true,
+                topics: missing.map(route => ({ topic: route.target, numPartitions: partitions.get(route.source) }))
+            });
+            console.log(`Created bridge targets ${missing.map(route => route.target).join(', ')}`);
+        });
+    }
+
+    private async checkLag(): Promise<void> {
+        try {
+            const lag = await this.lag();
+            const byTopic = new Map<string, number>();
+            for (const partition of lag) {
+                byTopic.set(partition.topic, (byTopic.get(partition.topic) || 0) + partition.lag);
+            }
+            console.log(`Bridge lag: ${Array.from(byTopic, ([topic, total]) => `${topic}=${total}`).join(', ')}`);
+        } catch (error) {
+            console.warn('Failed to check bridge lag:', error);
+        }
+    }
+}
+
+function routeName(route: BridgeRoute): string {
+    return `${route.source} -> ${route.target}`;
+}
+
+// ts-node kafka-services/src/transcoder-bridge.ts bridge.json
+// where bridge.json holds TranscoderBridgeOptions without the brokers, e.g.
+//   { "clientId": "orders-bridge", "routes": [{ "source": "order-created", "target": "order-created.pb", "format": "protobuf" }] }
+// Brokers come from KAFKA_BROKERS (default localhost:9092); SIGINT/SIGTERM stop it and print the report
+if (require.main === module) {
+    const config = JSON.parse(fs.readFileSync(process.argv[2], 'utf-8')) as Omit<TranscoderBridgeOptions, 'brokers'>;
+    const bridge = new TranscoderBridge({
+        ...config,
+        brokers: process.env.KAFKA_BROKERS?.split(',') || ['localhost:9092']
+    });
+
+    const shutdown = () => {
+        bridge.stop()
+            .then(() => console.log(JSON.stringify(bridge.stats(), null, 2)))
+            .catch(error => {
+                console.error('Failed to stop the bridge cleanly:', error);
+                process.exitCode = 1;
+            });
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+
+    bridge.start().catch(error => {
+        console.error('Bridge failed to start:', error);
+        process.exitCode = 1;
+        void bridge.stop();
+    });
+}
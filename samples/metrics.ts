@@ -0,0 +1,142 @@
+// shared-libs/metrics/metrics.ts
+export type Labels = Record<string, string>;
+
+export interface Counter {
+    inc(labels?: Labels, value?: number): void;
+}
+
+export interface Histogram {
+    observe(labels: Labels, value: number): void;
+}
+
+// Implement this to ship metrics somewhere other than the built-in Prometheus registry.
+// Asking twice for the same name must return the same instrument.
+export interface MetricsSink {
+    counter(name: string, help: string): Counter;
+    histogram(name: string, help: string, buckets: number[]): Histogram;
+}
+
+export class NoopMetricsSink implements MetricsSink {
+    counter(): Counter {
+        return { inc: () => undefined };
+    }
+
+    histogram(): Histogram {
+        return { observe: () => undefined };
+    }
+}
+
+interface CounterSeries {
+    labels: Labels;
+    value: number;
+}
+
+interface HistogramSeries {
+    labels: Labels;
+    bucketCounts: number[];
+    sum: number;
+    count: number;
+}
+
+type RegisteredMetric =
+    | { type: 'counter'; help: string; series: Map<string, CounterSeries> }
+    | { type: 'histogram'; help: string; buckets: number[]; series: Map<string, HistogramSeries> };
+
+export class PrometheusRegistry implements MetricsSink {
+    readonly contentType = 'text/plain; version=0.0.4; charset=utf-8';
+    private metrics = new Map<string, RegisteredMetric>();
+
+    counter(name: string, help: string): Counter {
+        const metric = this.register(name, () => ({ type: 'counter', help, series: new Map<string, CounterSeries>() }));
+        if (metric.type !== 'counter') {
+            throw new Error(`Metric ${name} is already registered as a ${metric.type}`);
+        }
+
+        return {
+            inc: (labels = {}, value = 1) => {
+                const key = seriesKey(labels);
+                const series = metric.series.get(key);
+                if (series) {
+                    series.value += value;
+                } else {
+                    metric.series.set(key, { labels, value });
+                }
+            }
+        };
+    }
+
+    histogram(name: string, help: string, buckets: number[]): Histogram {
+        const sorted = [...buckets].sort((a, b) => a - b);
+        const metric = this.register(name, () => ({
+            type: 'histogram', help, buckets: sorted, series: new Map<string, HistogramSeries>()
+        }));
+        if (metric.type !== 'histogram') {
+            throw new Error(`Metric ${name} is already registered as a ${metric.type}`);
+        }
+
+        return {
+            observe: (labels, value) => {
+                const key = seriesKey(labels);
+                let series = metric.series.get(key);
+                if (!series) {
+                    series = { labels, bucketCounts: metric.buckets.map(() => 0), sum: 0, count: 0 };
+                    metric.series.set(key, series);
+                }
+                metric.buckets.forEach((bound, index) => {
+                    if (value <= bound) series!.bucketCounts[index]++;
+                });
+                series.sum += value;
+                series.count++;
+            }
+        };
+    }
+
+    // Prometheus text exposition format 0.0.4
+    expose(): string {
+        const lines: string[] = [];
+
+        for (const [name, metric] of this.metrics) {
+            lines.push(`# HELP ${name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+            lines.push(`# TYPE ${name} ${metric.type}`);
+
+            if (metric.type === 'counter') {
+                for (const series of metric.series.values()) {
+                    lines.push(`${name}${formatLabels(series.labels)} ${series.value}`);
+                }
+                continue;
+            }
+
+            for (const series of metric.series.values()) {
+                metric.buckets.forEach((bound, index) => {
+                    lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: String(bound) })} ${series.bucketCounts[index]}`);
+                });
+                lines.push(`${name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+                lines.push(`${name}_sum${formatLabels(series.labels)} ${series.sum}`);
+                lines.push(`${name}_count${formatLabels(series.labels)} ${series.count}`);
+            }
+        }
+
+        return lines.join('\n') + '\n';
+    }
+
+    private register(name: string, create: () => RegisteredMetric): RegisteredMetric {
+        let metric = this.metrics.get(name);
+        if (!metric) {
+            metric = create();
+            this.metrics.set(name, metric);
+        }
+        return metric;
+    }
+}
+
+function seriesKey(labels: Labels): string {
+    return Object.keys(labels).sort().map(key => `${key}=${labels[key]}`).join(',');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.keys(labels).sort().map(key => {
+        const value = labels[key].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+        return `${key}="${value}"`;
+    });
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
\ No newline at end of file
@@ -0,0 +1,254 @@
+// shared-libs/serialization/msgpack-extensions.ts
+import * as msgpack from 'msgpack-lite';
+import { Int64BE, Uint64BE } from 'int64-buffer';
+
+// Application ext types live in 0-127; negative ids are reserved by the MessagePack spec.
+// Map and Set get their own types because a native map can't be told apart from an object.
+export const EXTENSION_TYPES = {
+    timestamp: -1,
+    decimal: 1,
+    map: 2,
+    set: 3
+} as const;
+
+export interface ExtensionType<T> {
+    type: number; // 0-127, not already taken
+    target: new (...args: any[]) => T;
+    encode(value: T): Buffer;
+    decode(data: Buffer): T;
+}
+
+// Exact base-10 value for money; the ext payload is the scale byte followed by the
+// unscaled value in big-endian two's complement, the same parts as Java's BigDecimal.
+export class Decimal {
+    constructor(readonly unscaled: bigint, readonly scale: number) {
+        if (!Number.isInteger(scale) || scale < 0 || scale > 255) {
+            throw new RangeError(`Decimal scale must be an integer from 0 to 255, got ${scale}`);
+        }
+    }
+
+    static parse(text: string): Decimal {
+        const match = /^([+-]?)(\d+)(?:\.(\d+))?$/.exec(text.trim());
+        if (!match) {
+            throw new Error(`Invalid decimal: ${text}`);
+        }
+        const [, sign, whole, fraction = ''] = match;
+        return new Decimal(BigInt(`${sign}${whole}${fraction}`), fraction.length);
+    }
+
+    toString(): string {
+        const digits = (this.unscaled < 0n ? -this.unscaled : this.unscaled).toString().padStart(this.scale + 1, '0');
+        const sign = this.unscaled < 0n ? '-' : '';
+        if (this.scale === 0) {
+            return sign + digits;
+        }
+        return `${sign}${digits.slice(0, -this.scale)}.${digits.slice(-this.scale)}`;
+    }
+
+    // A string, so JSON consumers don't parse it back into a float
+    toJSON(): string {
+        return this.toString();
+    }
+}
+
+// msgpack-lite recurses through codec.encode/decode, so wrapping them reaches nested values too
+interface CodecInternals {
+    encode(encoder: unknown, value: unknown): void;
+    decode(decoder: unknown): unknown;
+}
+
+const UINT64_MAX = (1n << 64n) - 1n;
+const INT64_MIN = -(1n << 63n);
+
+export class MessagePackExtensions {
+    private codec: msgpack.Codec;
+    private types = new Set<number>();
+    private classNames = new Set<string>();
+
+    constructor() {
+        // int64 keeps 64-bit integers as Int64BE/Uint64BE objects so they can become BigInts
+        this.codec = msgpack.createCodec({ int64: true });
+        this.wrapCodec();
+
+        // The spec's -1 is written as the unsigned byte 0xff, which is how msgpack-lite reads it back
+        this.addExtension(EXTENSION_TYPES.timestamp & 0xff, Date, encodeTimestamp, decodeTimestamp);
+        this.addExtension(EXTENSION_TYPES.decimal, Decimal, encodeDecimal, decodeDecimal);
+        this.addExtension(EXTENSION_TYPES.map, Map,
+            (map: Map<unknown, unknown>) => this.encode(Array.from(map)),
+            data => new Map(this.decode<Array<[unknown, unknown]>>(data)));
+        this.addExtension(EXTENSION_TYPES.set, Set,
+            (set: Set<unknown>) => this.encode(Array.from(set)),
+            data => new Set(this.decode<unknown[]>(data)));
+    }
+
+    // Both ends must register the same classes under the same ids
+    register<T>(extension: ExtensionType<T>): this {
+        if (!Number.isInteger(extension.type) || extension.type < 0 || extension.type > 127) {
+            throw new RangeError(`Extension type must be an integer from 0 to 127, got ${extension.type}`);
+        }
+        this.addExtension(extension.type, extension.target, extension.encode, extension.decode);
+        return this;
+    }
+
+    encode(value: unknown): Buffer {
+        return msgpack.encode(value, { codec: this.codec });
+    }
+
+    decode<T>(buffer: Buffer): T {
+        return msgpack.decode(buffer, { codec: this.codec }) as T;
+    }
+
+    createDecoder(): msgpack.Decoder {
+        return msgpack.Decoder({ codec: this.codec });
+    }
+
+    private addExtension<T>(
+        type: number,
+        target: new (...args: any[]) => T,
+        encode: (value: T) => Buffer,
+        decode: (data: Buffer) => T
+    ): void {
+        if (this.types.has(type)) {
+            throw new Error(`Extension type ${type} is already registered`);
+        }
+        // msgpack-lite looks packers up by constructor name
+        if (this.classNames.has(target.name)) {
+            throw new Error(`A class named ${target.name} is already registered`);
+        }
+        this.types.add(type);
+        this.classNames.add(target.name);
+        this.codec.addExtPacker(type, target, encode);
+        this.codec.addExtUnpacker(type, data => decode(Buffer.from(data)));
+    }
+
+    private wrapCodec(): void {
+        const internals = this.codec as unknown as CodecInternals;
+        const encode = internals.encode;
+        const decode = internals.decode;
+
+        internals.encode = (encoder, value) => {
+            if (typeof value === 'bigint') {
+                encode(encoder, toInt64(value));
+            } else if (value instanceof Uint8Array && !Buffer.isBuffer(value)) {
+                // Only Buffers are written as bin; other views would become maps of indices
+                encode(encoder, Buffer.from(value.buffer, value.byteOffset, value.byteLength));
+            } else {
+                encode(encoder, value);
+            }
+        };
+
+        internals.decode = decoder => {
+            const value = decode(decoder);
+            return Int64BE.isInt64BE(value) || Uint64BE.isUint64BE(value) ? fromInt64(value) : value;
+        };
+    }
+}
+
+// Lets the JSON fallback and size accounting cope with values the extensions introduce
+export function jsonReplacer(_key: string, value: unknown): unknown {
+    if (typeof value === 'bigint') {
+        return value.toString();
+    }
+    if (value instanceof Map) {
+        return Object.fromEntries(value);
+    }
+    if (value instanceof Set) {
+        return Array.from(value);
+    }
+    return value;
+}
+
+function toInt64(value: bigint): Int64BE | Uint64BE {
+    if (value < INT64_MIN || value > UINT64_MAX) {
+        throw new RangeError(`BigInt ${value} does not fit in 64 bits`);
+    }
+    return value < 0n ? new Int64BE(value.toString(), 10) : new Uint64BE(value.toString(), 10);
+}
+
+// Other encoders (e.g. Jackson for Java longs) use int64 for anything past 32 bits,
+// so values a double can hold exactly stay numbers and only larger ones become BigInts
+function fromInt64(value: Int64BE | Uint64BE): number | bigint {
+    const big = BigInt(value.toString(10));
+    return big >= BigInt(Number.MIN_SAFE_INTEGER) && big <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(big) : big;
+}
+
+// Timestamp 32/64/96 layouts from the spec; Dates only carry milliseconds
+function encodeTimestamp(date: Date): Buffer {
+    const millis = date.getTime();
+    if (Number.isNaN(millis)) {
+        throw new Error('Cannot encode an invalid Date');
+    }
+
+    const seconds = Math.floor(millis / 1000);
+    const nanos = (millis - seconds * 1000) * 1e6;
+
+    if (seconds >= 0 && seconds < 2 ** 34) {
+        if (nanos === 0 && seconds < 2 ** 32) {
+            const buffer = Buffer.alloc(4);
+            buffer.writeUInt32BE(seconds, 0);
+            return buffer;
+        }
+        // nanoseconds in the upper 30 bits, seconds in the lower 34
+        const buffer = Buffer.alloc(8);
+        buffer.writeUInt32BE(nanos * 4 + Math.floor(seconds / 2 ** 32), 0);
+        buffer.writeUInt32BE(seconds % 2 ** 32, 4);
+        return buffer;
+    }
+
+    const buffer = Buffer.alloc(12);
+    buffer.writeUInt32BE(nanos, 0);
+    buffer.writeBigInt64BE(BigInt(seconds), 4);
+    return buffer;
+}
+
+function decodeTimestamp(data: Buffer): Date {
+    let seconds: number;
+    let nanos: number;
+
+    switch (data.length) {
+        case 4:
+            seconds = data.readUInt32BE(0);
+            nanos = 0;
+            break;
+        case 8: {
+            const high = data.readUInt32BE(0);
+            nanos = Math.floor(high / 4);
+            seconds = (high % 4) * 2 ** 32 + data.readUInt32BE(4);
+            break;
+        }
+        case 12:
+            nanos = data.readUInt32BE(0);
+            seconds = Number(data.readBigInt64BE(4));
+            break;
+        default:
+            throw new Error(`Invalid timestamp extension length ${data.length}`);
+    }
+
+    return new Date(seconds * 1000 + Math.floor(nanos / 1e6));
+}
+
+function encodeDecimal(decimal: Decimal): Buffer {
+    return Buffer.concat([Buffer.from([decimal.scale]), toTwosComplement(decimal.unscaled)]);
+}
+
+function decodeDecimal(data: Buffer): Decimal {
+    if (data.length < 2) {
+        throw new Error(`Invalid decimal extension length ${data.length}`);
+    }
+    return new Decimal(fromTwosComplement(data.subarray(1)), data[0]);
+}
+
+// Minimal big-endian two's complement, as BigInteger.toByteArray() writes it
+function toTwosComplement(value: bigint): Buffer {
+    let length = 1;
+    while (value < -(1n << BigInt(8 * length - 1)) || value >= 1n << BigInt(8 * length - 1)) {
+        length++;
+    }
+    const unsigned = value < 0n ? (1n << BigInt(8 * length)) + value : value;
+    return Buffer.from(unsigned.toString(16).padStart(length * 2, '0'), 'hex');
+}
+
+function fromTwosComplement(bytes: Buffer): bigint {
+    const unsigned = BigInt(`0x${bytes.toString('hex')}`);
+    return bytes[0] & 0x80 ? unsigned - (1n << BigInt(8 * bytes.length)) : unsigned;
+}
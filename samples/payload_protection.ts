@@ -0,0 +1,387 @@
+// shared-libs/serialization/payload-protection.ts
+import { createCipheriv, createDecipheriv, createHmac, createPrivateKey, createPublicKey, KeyObject, randomBytes, sign, timingSafeEqual, verify } from 'crypto';
+import * as fs from 'fs';
+import type { WatchOptions } from './format-policy';
+import { jsonReplacer } from './msgpack-extensions';
+import { Envelope, ENVELOPE_HEADER_SIZE, EnvelopeHeader, FLAG_ENCRYPTED, FLAG_SIGNED, writeEnvelope } from './wire-envelope';
+
+export type KeyAlgorithm = 'aes-256-gcm' | 'hmac-sha256' | 'ed25519';
+
+export interface ProtectionKey {
+    id: string;
+    algorithm: KeyAlgorithm;
+    secret?: Buffer;        // aes-256-gcm (32 bytes) and hmac-sha256
+    privateKey?: KeyObject; // ed25519 signing; verifying only needs the public key
+    publicKey?: KeyObject;
+}
+
+// Where keys come from. `current` is used for new payloads; `get` finds any key still
+// honoured for reading, so a rotated-out key keeps working until it is removed.
+export interface Keyring {
+    current(use: 'encrypt' | 'sign'): ProtectionKey | undefined;
+    get(id: string): ProtectionKey | undefined;
+}
+
+export interface ProtectionOptions {
+    keyring: Keyring;
+    encrypt?: boolean;        // AES-256-GCM the whole payload; requires the envelope
+    sign?: boolean;           // HMAC-SHA256 or Ed25519, per the current signing key; requires the envelope
+    encryptFields?: string[]; // Paths encrypted one by one, e.g. ['customerId', 'items[].sku'], so
+                              // readers without the key still see the rest. Protobuf can only carry string fields
+    requireSigned?: boolean;  // Reject unsigned payloads, legacy ones included (default: when signing). Set false
+                              // while the other producers of a topic roll out signing, or stripping a signature passes
+}
+
+// Base64 secrets and PEM keys, e.g. mounted from a Kubernetes Secret
+export interface KeyringConfig {
+    encryptionKey?: string; // Id of the key new payloads are encrypted with
+    signingKey?: string;    // Id of the key new payloads are signed with
+    keys: Array<{
+        id: string;
+        algorithm: KeyAlgorithm;
+        secret?: string;
+        privateKey?: string;
+        publicKey?: string;
+    }>;
+}
+
+// Bad signatures, unknown keys and failed decryption: never retried as another format
+export class ProtectionError extends Error {
+    constructor(message: string, readonly keyId?: string) {
+        super(message);
+        this.name = 'ProtectionError';
+    }
+}
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const FIELD_PREFIX = 'enc:';
+
+// Keys from a config object or file. Rotating is adding the new key, pointing
+// encryptionKey/signingKey at it, and removing the old one once nothing written with it is read.
+export class LocalKeyring implements Keyring {
+    private keys = new Map<string, ProtectionKey>();
+    private currentIds: { encrypt?: string; sign?: string } = {};
+    private watchedFile?: string;
+
+    constructor(config: KeyringConfig) {
+        this.update(config);
+    }
+
+    // Loads the file now (throwing if it is invalid) and reloads it whenever it changes
+    static fromFile(file: string, options: WatchOptions = {}): LocalKeyring {
+        const keyring = new LocalKeyring(readConfig(file));
+        keyring.watch(file, options);
+        return keyring;
+    }
+
+    current(use: 'encrypt' | 'sign'): ProtectionKey | undefined {
+        const id = this.currentIds[use];
+        return id ? this.keys.get(id) : undefined;
+    }
+
+    get(id: string): ProtectionKey | undefined {
+        return this.keys.get(id);
+    }
+
+    // Validates the whole config before replacing anything, so a bad edit leaves the old keys live
+    update(config: KeyringConfig): void {
+        const keys = new Map<string, ProtectionKey>();
+        for (const entry of config.keys || []) {
+            if (!entry.id || entry.id.includes(':') || Buffer.byteLength(entry.id) > 255) {
+                throw new Error(`Key id "${entry.id}" must be 1-255 bytes without ':'`);
+            }
+            if (keys.has(entry.id)) {
+                throw new Error(`Duplicate key id ${entry.id}`);
+            }
+            keys.set(entry.id, parseKey(entry));
+        }
+
+        if (config.encryptionKey && keys.get(config.encryptionKey)?.algorithm !== 'aes-256-gcm') {
+            throw new Error(`Encryption key ${config.encryptionKey} is not an aes-256-gcm key in the keyring`);
+        }
+        const signingKey = config.signingKey ? keys.get(config.signingKey) : undefined;
+        if (config.signingKey && (!signingKey || signingKey.algorithm === 'aes-256-gcm'
+            || (signingKey.algorithm === 'ed25519' && !signingKey.privateKey))) {
+            throw new Error(`Signing key ${config.signingKey} is not an hmac-sha256 or ed25519 private key in the keyring`);
+        }
+
+        this.keys = keys;
+        this.currentIds = { encrypt: config.encryptionKey, sign: config.signingKey };
+    }
+
+    close(): void {
+        if (this.watchedFile) {
+            fs.unwatchFile(this.watchedFile);
+            this.watchedFile = undefined;
+        }
+    }
+
+    private watch(file: string, options: WatchOptions): void {
+        this.close();
+        this.watchedFile = file;
+        fs.watchFile(file, { interval: options.intervalMs || 5000, persistent: false }, (current, previous) => {
+            if (current.mtimeMs === previous.mtimeMs || current.nlink === 0) {
+                return; // Unchanged, or deleted mid-swap; the next poll picks up the new file
+            }
+            try {
+                this.update(readConfig(file));
+                console.log(`Reloaded keyring from ${file}`);
+            } catch (error) {
+                console.error(`Keeping the previous keyring, ${file} is invalid:`, error);
+            }
+        });
+    }
+}
+
+// Runs after compression on the way out and before decompression on the way in.
+// A sealed envelope's payload is, in order and each only if its flag is set:
+//   signature:  keyIdLength(1) keyId signatureLength(2) signature
+//   encryption: keyIdLength(1) keyId iv(12) tag(16) ciphertext
+// The signature covers the envelope header and everything after it, and the header is
+// the ciphertext's associated data, so neither the flags nor the schema id can be altered.
+export class PayloadProtection {
+    private keyring: Keyring;
+    private encryptPayload: boolean;
+    private signPayload: boolean;
+    private fields: Array<{ path: string; segments: string[] }>;
+    readonly requireSigned: boolean;
+
+    constructor(options: ProtectionOptions) {
+        this.keyring = options.keyring;
+        this.encryptPayload = options.encrypt === true;
+        this.signPayload = options.sign === true;
+        this.fields = (options.encryptFields || []).map(path => ({ path, segments: path.split('.') }));
+        this.requireSigned = options.requireSigned ?? this.signPayload;
+    }
+
+    get sealsPayload(): boolean {
+        return this.encryptPayload || this.signPayload || this.requireSigned;
+    }
+
+    seal(header: EnvelopeHeader, payload: Buffer): Buffer {
+        const flags = header.flags | (this.encryptPayload ? FLAG_ENCRYPTED : 0) | (this.signPayload ? FLAG_SIGNED : 0);
+        const head = writeEnvelope({ ...header, flags }, Buffer.alloc(0));
+
+        let body = payload;
+        if (this.encryptPayload) {
+            const key = this.currentKey('encrypt');
+            const iv = randomBytes(IV_LENGTH);
+            const cipher = createCipheriv('aes-256-gcm', key.secret!, iv).setAAD(head);
+            const ciphertext = Buffer.concat([cipher.update(payload), cipher.final()]);
+            body = Buffer.concat([keyIdBytes(key.id), iv, cipher.getAuthTag(), ciphertext]);
+        }
+
+        if (this.signPayload) {
+            const key = this.currentKey('sign');
+            const signature = signBytes(key, Buffer.concat([head, body]));
+            const length = Buffer.alloc(2);
+            length.writeUInt16BE(signature.length);
+            body = Buffer.concat([keyIdBytes(key.id), length, signature, body]);
+        }
+
+        return Buffer.concat([head, body]);
+    }
+
+    // The verified, decrypted payload, ready to decompress
+    open(envelope: Envelope, buffer: Buffer): Buffer {
+        const head = buffer.subarray(0, ENVELOPE_HEADER_SIZE);
+        let body = envelope.payload;
+
+        if (envelope.header.flags & FLAG_SIGNED) {
+            const { keyId, rest } = readKeyId(body);
+            if (rest.length < 2 || rest.length < 2 + rest.readUInt16BE(0)) {
+                throw new ProtectionError('Truncated signature block', keyId);
+            }
+            const signature = rest.subarray(2, 2 + rest.readUInt16BE(0));
+            body = rest.subarray(2 + signature.length);
+            if (!verifyBytes(this.requireKey(keyId), Buffer.concat([head, body]), signature)) {
+                throw new ProtectionError(`Signature by ${keyId} does not match the payload`, keyId);
+            }
+        } else {
+            this.checkUnsigned();
+        }
+
+        if (envelope.header.flags & FLAG_ENCRYPTED) {
+            const { keyId, rest } = readKeyId(body);
+            const key = this.requireKey(keyId);
+            if (key.algorithm !== 'aes-256-gcm' || rest.length < IV_LENGTH + TAG_LENGTH) {
+                throw new ProtectionError(`Payload encrypted with ${keyId} can't be decrypted`, keyId);
+            }
+            body = decrypt(key, rest, head);
+        }
+        return body;
+    }
+
+    // For payloads without the envelope, which can't carry a signature
+    checkUnsigned(): void {
+        if (this.requireSigned) {
+            throw new ProtectionError('Payload is not signed');
+        }
+    }
+
+    // Returns a copy with each configured path replaced by `enc:<keyId>:<base64>`
+    encryptFields<T>(value: T): T {
+        if (this.fields.length === 0) return value;
+
+        const key = this.currentKey('encrypt');
+        return this.fields.reduce((current, { path, segments }) => transformPath(current, segments, leaf => {
+            const iv = randomBytes(IV_LENGTH);
+            const cipher = createCipheriv('aes-256-gcm', key.secret!, iv).setAAD(Buffer.from(path));
+            const ciphertext = Buffer.concat([cipher.update(JSON.stringify(leaf, jsonReplacer)), cipher.final()]);
+            return `${FIELD_PREFIX}${key.id}:${Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')}`;
+        }), value as unknown) as T;
+    }
+
+    // Fields encrypted with a key this keyring doesn't hold are left as they are, so a
+    // reader with only some keys still gets everything else
+    decryptFields<T>(value: T): T {
+        if (this.fields.length === 0) return value;
+
+        return this.fields.reduce((current, { path, segments }) => transformPath(current, segments, leaf => {
+            if (typeof leaf !== 'string' || !leaf.startsWith(FIELD_PREFIX)) return leaf;
+            const separator = leaf.indexOf(':', FIELD_PREFIX.length);
+            const key = separator < 0 ? undefined : this.keyring.get(leaf.slice(FIELD_PREFIX.length, separator));
+            if (!key || key.algorithm !== 'aes-256-gcm') return leaf;
+            return JSON.parse(decrypt(key, Buffer.from(leaf.slice(separator + 1), 'base64'), Buffer.from(path)).toString('utf-8'));
+        }), value as unknown) as T;
+    }
+
+    private currentKey(use: 'encrypt' | 'sign'): ProtectionKey {
+        const key = this.keyring.current(use);
+        if (!key) {
+            throw new ProtectionError(`The keyring has no current ${use === 'encrypt' ? 'encryption' : 'signing'} key`);
+        }
+        return key;
+    }
+
+    private requireKey(id: string): ProtectionKey {
+        const key = this.keyring.get(id);
+        if (!key) {
+            throw new ProtectionError(`Unknown key ${id}; it may have been removed from the keyring`, id);
+        }
+        return key;
+    }
+}
+
+// For codecs without a keyring: a signature is skipped unchecked, an encrypted payload can't be read
+export function readUnverified(envelope: Envelope): Buffer {
+    if (envelope.header.flags & FLAG_ENCRYPTED) {
+        throw new ProtectionError('Payload is encrypted, but no keyring is configured');
+    }
+    if (envelope.header.flags & FLAG_SIGNED) {
+        const { rest } = readKeyId(envelope.payload);
+        if (rest.length < 2) {
+            throw new ProtectionError('Truncated signature block');
+        }
+        return rest.subarray(2 + rest.readUInt16BE(0));
+    }
+    return envelope.payload;
+}
+
+// The ids of the keys a payload was signed and encrypted with, read without checking either
+export function sealingKeyIds(envelope: Envelope): { signedWith?: string; encryptedWith?: string } {
+    const ids: { signedWith?: string; encryptedWith?: string } = {};
+    let body = envelope.payload;
+    if (envelope.header.flags & FLAG_SIGNED) {
+        const { keyId, rest } = readKeyId(body);
+        if (rest.length < 2) {
+            throw new ProtectionError('Truncated signature block', keyId);
+        }
+        ids.signedWith = keyId;
+        body = rest.subarray(2 + rest.readUInt16BE(0));
+    }
+    if (envelope.header.flags & FLAG_ENCRYPTED) {
+        ids.encryptedWith = readKeyId(body).keyId;
+    }
+    return ids;
+}
+
+function parseKey(entry: KeyringConfig['keys'][number]): ProtectionKey {
+    const { id, algorithm } = entry;
+    switch (algorithm) {
+        case 'aes-256-gcm':
+        case 'hmac-sha256': {
+            const secret = Buffer.from(entry.secret || '', 'base64');
+            if (algorithm === 'aes-256-gcm' ? secret.length !== 32 : secret.length < 32) {
+                throw new Error(`Key ${id} needs a base64 secret of ${algorithm === 'aes-256-gcm' ? 'exactly' : 'at least'} 32 bytes`);
+            }
+            return { id, algorithm, secret };
+        }
+        case 'ed25519': {
+            const privateKey = entry.privateKey ? createPrivateKey(entry.privateKey) : undefined;
+            const publicKey = entry.publicKey ? createPublicKey(entry.publicKey) : privateKey && createPublicKey(privateKey);
+            if (!publicKey) {
+                throw new Error(`Key ${id} needs a PEM privateKey or publicKey`);
+            }
+            return { id, algorithm, privateKey, publicKey };
+        }
+        default:
+            throw new Error(`Key ${id} has unknown algorithm ${algorithm}`);
+    }
+}
+
+function readConfig(file: string): KeyringConfig {
+    return JSON.parse(fs.readFileSync(file, 'utf-8')) as KeyringConfig;
+}
+
+function signBytes(key: ProtectionKey, data: Buffer): Buffer {
+    return key.algorithm === 'ed25519'
+        ? sign(null, data, key.privateKey!)
+        : createHmac('sha256', key.secret!).update(data).digest();
+}
+
+function verifyBytes(key: ProtectionKey, data: Buffer, signature: Buffer): boolean {
+    if (key.algorithm === 'ed25519') {
+        return verify(null, data, key.publicKey!, signature);
+    }
+    if (key.algorithm !== 'hmac-sha256') {
+        return false;
+    }
+    const expected = createHmac('sha256', key.secret!).update(data).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+}
+
+// iv(12) tag(16) ciphertext
+function decrypt(key: ProtectionKey, sealed: Buffer, aad: Buffer): Buffer {
+    try {
+        const decipher = createDecipheriv('aes-256-gcm', key.secret!, sealed.subarray(0, IV_LENGTH)).setAAD(aad);
+        decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+        return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+    } catch (error) {
+        throw new ProtectionError(`Decryption with ${key.id} failed; the data was altered or the key is wrong`, key.id);
+    }
+}
+
+function keyIdBytes(id: string): Buffer {
+    const bytes = Buffer.from(id, 'utf-8');
+    return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+}
+
+function readKeyId(buffer: Buffer): { keyId: string; rest: Buffer } {
+    if (buffer.length < 1 || buffer.length < 1 + buffer[0]) {
+        throw new ProtectionError('Truncated key id');
+    }
+    return { keyId: buffer.subarray(1, 1 + buffer[0]).toString('utf-8'), rest: buffer.subarray(1 + buffer[0]) };
+}
+
+// Copies plain objects and arrays along the path; `name[]` applies the rest to each element
+function transformPath(value: unknown, segments: string[], transform: (leaf: unknown) => unknown): unknown {
+    if (value === null || typeof value !== 'object') {
+        return value;
+    }
+
+    const [segment, ...rest] = segments;
+    const each = segment.endsWith('[]');
+    const name = each ? segment.slice(0, -2) : segment;
+    const record = value as Record<string, unknown>;
+    if (record[name] == null) {
+        return value;
+    }
+
+    const apply = (child: unknown) => rest.length > 0 ? transformPath(child, rest, transform) : child == null ? child : transform(child);
+    const next = each
+        ? (Array.isArray(record[name]) ? (record[name] as unknown[]).map(apply) : record[name])
+        : apply(record[name]);
+    return { ...record, [name]: next };
+}
@@ -0,0 +1,104 @@
+// shared-libs/persistence/outbox-store.ts
+import { Pool } from 'pg';
+import { Queryable, quoteIdentifier, withTransaction } from './document-repository';
+
+interface OutboxRow {
+    id: string;
+    payload: Buffer;
+    attempts: number;
+}
+
+// Storage for kafka-services/src/outbox.ts in a Postgres table, so entries can be added in
+// the same transaction as the rows they announce: either both commit or neither does.
+// Entries are scheduled by `due_at`; claiming pushes it past the lease, so a relay that dies
+// mid-publish only delays them. Entries with the same `ordering_key` are claimed in `seq` order
+// and only once every earlier one is due, and claims take an advisory lock so that a relay
+// running next to this one sees its leases rather than overtaking a key's earlier entries.
+export class PostgresOutboxStore {
+    private name: string;
+    private table: string;
+
+    constructor(private pool: Pool, table = 'outbox') {
+        this.name = table;
+        this.table = quoteIdentifier(table);
+    }
+
+    // For local development; deployed tables come from postgresql_schema_changes.sql
+    async createTable(): Promise<void> {
+        const prefix = this.name.split('.').pop();
+        await this.pool.query(`
+            CREATE TABLE IF NOT EXISTS ${this.table} (
+                id TEXT PRIMARY KEY,
+                seq BIGSERIAL NOT NULL,
+                ordering_key TEXT,
+                payload BYTEA NOT NULL,
+                attempts INTEGER NOT NULL DEFAULT 0,
+                due_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+                failed_at TIMESTAMPTZ
+            )`);
+        await this.pool.query(`CREATE INDEX IF NOT EXISTS ${quoteIdentifier(`${prefix}_due_idx`)}
+            ON ${this.table} (due_at) WHERE failed_at IS NULL`);
+        await this.pool.query(`CREATE INDEX IF NOT EXISTS ${quoteIdentifier(`${prefix}_ordering_idx`)}
+            ON ${this.table} (ordering_key, seq) WHERE failed_at IS NULL`);
+    }
+
+    // Pass the client of an open transaction to add the entries as part of it. An id that is
+    // already stored keeps its entry: ids are event ids, so it is the same message.
+    async add(entries: Array<{ id: string; payload: Buffer; key?: string }>, client: Queryable = this.pool): Promise<void> {
+        if (entries.length === 0) return;
+        await client.query(
+            `INSERT INTO ${this.table} (id, payload, ordering_key)
+             SELECT * FROM unnest($1::text[], $2::bytea[], $3::text[])
+             ON CONFLICT (id) DO NOTHING`,
+            [entries.map(entry => entry.id), entries.map(entry => entry.payload), entries.map(entry => entry.key ?? null)]
+        );
+    }
+
+    async claim(limit: number, leaseMs: number): Promise<OutboxRow[]> {
+        return await withTransaction(this.pool, async client => {
+            await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [this.name]);
+            const { rows } = await client.query<OutboxRow>(
+                `WITH claimed AS (
+                     UPDATE ${this.table} SET due_at = now() + $2 * interval '1 millisecond'
+                     WHERE id IN (
+                         SELECT id FROM ${this.table} entry
+                         WHERE failed_at IS NULL AND due_at <= now() AND NOT EXISTS (
+                             SELECT 1 FROM ${this.table} earlier
+                             WHERE earlier.ordering_key = entry.ordering_key AND earlier.seq < entry.seq
+                                 AND earlier.failed_at IS NULL AND earlier.due_at > now()
+                         )
+                         ORDER BY seq LIMIT $1
+                     )
+                     RETURNING id, seq, payload, attempts
+                 )
+                 SELECT id, payload, attempts FROM claimed ORDER BY seq`,
+                [limit, leaseMs]
+            );
+            return rows;
+        });
+    }
+
+    async complete(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        await this.pool.query(`DELETE FROM ${this.table} WHERE id = ANY($1)`, [ids]);
+    }
+
+    // A completed entry is already deleted, so it isn't brought back
+    async retry(id: string, delayMs: number): Promise<void> {
+        await this.pool.query(
+            `UPDATE ${this.table} SET due_at = now() + $2 * interval '1 millisecond', attempts = attempts + 1
+             WHERE id = $1 AND failed_at IS NULL`,
+            [id, delayMs]
+        );
+    }
+
+    async release(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        await this.pool.query(`UPDATE ${this.table} SET due_at = now() WHERE id = ANY($1) AND failed_at IS NULL`, [ids]);
+    }
+
+    // The entry's payload stays for inspection; it no longer holds back its key's later entries
+    async fail(id: string): Promise<void> {
+        await this.pool.query(`UPDATE ${this.table} SET failed_at = now() WHERE id = $1`, [id]);
+    }
+}
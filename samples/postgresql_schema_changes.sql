@@ -17,3 +17,34 @@ BEGIN
     END IF;
 END;
 $$ LANGUAGE plpgsql;
+
+-- Migration: Encoded documents (shared-libs/persistence/document-repository.ts)
+-- Payloads are stored as BinaryCodec writes them; format_type says how to read a
+-- headerless payload and, with schema_version, which rows still need re-encoding.
+-- COLLATE "C" lets the primary key index serve key prefix queries.
+CREATE TABLE IF NOT EXISTS order_documents (
+    key TEXT COLLATE "C" PRIMARY KEY,
+    payload BYTEA NOT NULL,
+    format_type VARCHAR(20) NOT NULL,
+    schema_version INTEGER NOT NULL DEFAULT 0,
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS order_documents_format_idx ON order_documents(format_type);
+
+-- Migration: Transactional outbox (shared-libs/persistence/outbox-store.ts)
+-- Events are added in the same transaction as the order_documents row they announce
+-- and deleted once published; failed entries stay for inspection. Entries with the same
+-- ordering_key (topic plus message key) are published in seq order.
+CREATE TABLE IF NOT EXISTS order_outbox (
+    id TEXT PRIMARY KEY,
+    seq BIGSERIAL NOT NULL,
+    ordering_key TEXT,
+    payload BYTEA NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    due_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    failed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS order_outbox_due_idx ON order_outbox(due_at) WHERE failed_at IS NULL;
+CREATE INDEX IF NOT EXISTS order_outbox_ordering_idx ON order_outbox(ordering_key, seq) WHERE failed_at IS NULL;
@@ -0,0 +1,120 @@
+// shared-libs/serialization/protobuf-schemas.ts
+import * as protobuf from 'protobufjs';
+
+export interface ProtobufSchemaOptions {
+    protoFiles?: string[];
+    descriptor?: protobuf.INamespace;
+    keepCase?: boolean;
+}
+
+// int64 values come back as decimal strings so they survive the trip through JS numbers
+const DECODE_OPTIONS: protobuf.IConversionOptions = {
+    longs: String,
+    enums: String,
+    defaults: true,
+    arrays: true,
+    oneofs: true
+};
+
+// Schemas are loaded on first use, so a missing or invalid .proto rejects the calls that
+// need it instead of surfacing as an unhandled rejection; a failed load is retried next call.
+export class ProtobufSchemas {
+    private options: ProtobufSchemaOptions;
+    private root?: Promise<protobuf.Root>;
+    private types = new Map<string, protobuf.Type>();
+
+    constructor(options: ProtobufSchemaOptions = {}) {
+        this.options = options;
+    }
+
+    async resolve(typeName: string): Promise<protobuf.Type> {
+        let type = this.types.get(typeName);
+        if (!type) {
+            type = (await this.loadRoot()).lookupType(typeName);
+            this.types.set(typeName, type);
+        }
+        return type;
+    }
+
+    // For gRPC: the service's methods resolve to the same types the codec uses
+    async resolveService(serviceName: string): Promise<protobuf.Service> {
+        return (await this.loadRoot()).lookupService(serviceName);
+    }
+
+    async encode<T>(data: T, typeName: string): Promise<Buffer> {
+        return encodeMessage(await this.resolve(typeName), data);
+    }
+
+    async decode<T>(buffer: Buffer, typeName: string): Promise<T> {
+        return decodeMessage<T>(await this.resolve(typeName), buffer);
+    }
+
+    private loadRoot(): Promise<protobuf.Root> {
+        if (!this.root) {
+            this.root = this.load(this.options);
+            this.root.catch(() => {
+                this.root = undefined;
+            });
+        }
+        return this.root;
+    }
+
+    private async load(options: ProtobufSchemaOptions): Promise<protobuf.Root> {
+        const root = options.descriptor
+            ? protobuf.Root.fromJSON(options.descriptor)
+            : new protobuf.Root();
+
+        if (options.protoFiles && options.protoFiles.length > 0) {
+            await root.load(options.protoFiles, { keepCase: options.keepCase === true });
+        }
+
+        root.resolveAll();
+        return root;
+    }
+}
+
+export function encodeMessage<T>(type: protobuf.Type, data: T): Buffer {
+    const message = type.fromObject(data as any);
+    clearImplicitDefaults(type, message);
+    return Buffer.from(type.encode(message).finish());
+}
+
+export function decodeMessage<T>(type: protobuf.Type, buffer: Buffer): T {
+    return type.toObject(type.decode(buffer), DECODE_OPTIONS) as T;
+}
+
+// proto3 writers (including the Java generated code) omit scalar fields that hold
+// their default value; protobufjs writes anything that is set, so drop them first.
+function clearImplicitDefaults(type: protobuf.Type, message: protobuf.Message): void {
+    const values = message as unknown as Record<string, any>;
+
+    for (const field of type.fieldsArray) {
+        const value = values[field.name];
+        if (value == null) continue;
+
+        if (field.resolvedType instanceof protobuf.Type) {
+            const nested = field.resolvedType;
+            const children = field.map ? Object.values(value) : field.repeated ? value : [value];
+            children.forEach((child: protobuf.Message) => clearImplicitDefaults(nested, child));
+            continue;
+        }
+
+        // Oneof members (and proto3 `optional`, a synthetic oneof) track presence explicitly
+        if (field.repeated || field.map || field.partOf) continue;
+
+        if (isImplicitDefault(value, field)) {
+            delete values[field.name];
+        }
+    }
+}
+
+function isImplicitDefault(value: any, field: protobuf.Field): boolean {
+    if (typeof value === 'object' && 'low' in value && 'high' in value) {
+        return value.low === 0 && value.high === 0; // Long
+    }
+    if (value instanceof Uint8Array) {
+        return value.length === 0;
+    }
+    // Object.is keeps -0.0, which Java also writes
+    return Object.is(value, field.typeDefault);
+}
\ No newline at end of file
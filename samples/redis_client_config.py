@@ -3,9 +3,10 @@ import redis
 import msgpack
 
 class BinaryRedisClient:
-    def __init__(self, **kwargs):
+    # keyring: load_keyring() of the services' PAYLOAD_KEYRING_FILE, to read the values they encrypt
+    def __init__(self, keyring=None, **kwargs):
         self.client = redis.Redis(decode_responses=False, **kwargs)
-        self.codec = BinaryCodec(format_type='messagepack')
+        self.codec = BinaryCodec(format_type='messagepack', keyring=keyring)
     
     def set(self, key, value, **kwargs):
         binary_data = self.codec.encode(value)
@@ -1,11 +1,50 @@
 // redis-client/binary-redis.ts
-import Redis, { RedisOptions } from 'ioredis';
-import { BinaryCodec, SerializationFormat } from '../shared-libs/serialization/binary-codec';
+import { randomUUID } from 'crypto';
+import Redis, { ChainableCommander, Cluster, ClusterNode, ClusterOptions, RedisOptions } from 'ioredis';
+import { BinaryCodec, ProtobufCodecOptions, SerializationFormat } from '../shared-libs/serialization/binary-codec';
+import { MetricsSink } from '../shared-libs/metrics/metrics';
+import { MetricLabels } from '../shared-libs/metrics/serialization-instruments';
+import { SchemaRegistryClient } from '../shared-libs/schema-registry/schema-registry';
+import { CompressionOptions } from '../shared-libs/serialization/compression';
+import { ProtectionOptions } from '../shared-libs/serialization/payload-protection';
+import { FormatPolicy } from '../shared-libs/serialization/format-policy';
+import { jsonReplacer, MessagePackExtensions } from '../shared-libs/serialization/msgpack-extensions';
+import {
+    CodecValidationError,
+    ValidationDirection,
+    ValidationPolicy
+} from '../shared-libs/serialization/schema-validator';
+import {
+    BinaryPipeline,
+    PipelineCodec,
+    PipelineResults,
+    WatchConflictError,
+    WatchedTransaction
+} from './binary-pipeline';
+import { readCacheEntry, writeCacheEntry } from './cache-entry';
+import { commonSlot, groupBySlot, keySlot } from './cluster-keys';
 
+// A single node by default; `sentinels` and `name` (from RedisOptions) find the master through
+// Sentinel, and `cluster` connects to a Redis Cluster with the remaining options used per node
 export interface BinaryRedisOptions extends RedisOptions {
+    cluster?: ClusterNode[]; // Startup nodes; the rest of the topology is discovered
+    clusterOptions?: ClusterOptions;
     formatType?: SerializationFormat;
     fallbackJson?: boolean;
     pipelineSize?: number;
+    envelope?: boolean; // Write the self-describing wire header (default true)
+    compression?: CompressionOptions;
+    protection?: ProtectionOptions; // Encrypt and/or sign stored values
+    protobuf?: ProtobufCodecOptions;
+    schemaRegistry?: SchemaRegistryClient;
+    keySubjects?: Record<string, string>; // Key prefix -> registry subject, e.g. { 'order:': 'order-value' }
+    validate?: boolean | ValidationDirection;
+    onValidationError?: ValidationPolicy; // Default 'reject'; 'quarantine' moves string values under `quarantine:`
+                                          // and rejects hash fields, list/set members, stream entries and messages
+    quarantineTtlSeconds?: number;        // How long quarantined values are kept for inspection (default 7 days)
+    metrics?: MetricsSink; // Series are labelled with the key prefix up to the first ':'
+    extensions?: MessagePackExtensions;
+    formatPolicy?: FormatPolicy; // Rules match key prefixes; buckets by key so each key keeps one format
 }
 
 export interface RedisSetOptions {
@@ -15,28 +54,160 @@ export interface RedisSetOptions {
     XX?: boolean; // Only set if key exists
 }
 
+export interface CacheOptions {
+    ttlSeconds: number;                   // How long a loaded value is fresh
+    staleWhileRevalidateSeconds?: number; // Then served stale for up to this long while it is refreshed (default 0)
+    negativeTtlSeconds?: number;          // Cache a null from the loader for this long (default 0, not cached)
+    jitter?: number;                      // Stretch TTLs by up to this fraction so keys loaded together don't expire together (default 0.1)
+    lockTimeoutMs?: number;               // Lease on the load lock, and how long other processes wait on it (default 5000)
+}
+
+export interface ScoredMember<T> {
+    value: T;
+    score: number;
+}
+
+export interface StreamEntry<T> {
+    stream: string;
+    id: string;
+    value: T;
+}
+
+export interface StreamAddOptions {
+    id?: string;     // Default '*', assigned by Redis
+    maxLen?: number; // Trim to roughly this many entries (MAXLEN ~)
+}
+
+// BLOCK holds the connection for the whole wait, stalling every other command on this
+// client; give blocking readers a BinaryRedisClient of their own
+export interface StreamReadOptions {
+    count?: number;
+    blockMs?: number;
+}
+
+export type MessageHandler<T> = (message: T, channel: string) => void | Promise<void>;
+
+export interface StoredValue {
+    key: string;
+    buffer: Buffer | null; // Null once the key is gone
+    pttl: number;          // Milliseconds left; -1 without an expiry, -2 once the key is gone
+}
+
+export interface StoredReplacement {
+    key: string;
+    expected: Buffer; // Only replaced while the key still holds exactly these bytes
+    buffer: Buffer;
+}
+
+const QUARANTINE_PREFIX = 'quarantine:';
+const DEFAULT_QUARANTINE_TTL_SECONDS = 7 * 24 * 3600;
+const LOCK_PREFIX = 'lock:';
+const LOCK_POLL_MS = 50;
+// Stream entries hold the encoded value under a single field
+const STREAM_FIELD = 'data';
+
+// XREAD/XREADGROUP reply: [[stream, [[id, [field, value, ...]], ...]], ...] over RESP2. Over
+// RESP3 it is a map, which ioredis flattens to [stream, entries, stream, entries, ...]
+type StreamItems = Array<[Buffer, Buffer[] | null]>;
+type StreamReply = Array<[Buffer, StreamItems]> | Array<Buffer | StreamItems> | null;
+
+// Compare-and-set that carries the remaining TTL over; PTTL is read inside the script
+// so a key can't expire or be rewritten between the check and the SET
+const REPLACE_IF_UNCHANGED = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+    return 0
+end
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl > 0 then
+    redis.call('SET', KEYS[1], ARGV[2], 'PX', ttl)
+else
+    redis.call('SET', KEYS[1], ARGV[2])
+end
+return 1`;
+
+// Moves a key aside, keeping its TTL unless the quarantine's is shorter. A key that is
+// already gone (another reader quarantined it, or it expired) is left alone: RENAME would fail.
+// KEYS: key, quarantine key. ARGV: quarantine TTL in ms
+const QUARANTINE_KEY = `
+local ttl = redis.call('PTTL', KEYS[1])
+if ttl == -2 then
+    return 0
+end
+redis.call('RENAME', KEYS[1], KEYS[2])
+if ttl < 0 or ttl > tonumber(ARGV[1]) then
+    redis.call('PEXPIRE', KEYS[2], ARGV[1])
+end
+return 1`;
+
+// The cross-slot half of a quarantine: the key is only deleted while it still holds what was copied
+const DELETE_IF_DUMPED = `
+if redis.call('DUMP', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+// Only the holder's token releases a lock, so a load that outlives its lease can't free someone else's
+const RELEASE_LOCK = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+    return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
 export class BinaryRedisClient {
-    private client: Redis;
+    private client: Redis | Cluster;
     private codec: BinaryCodec;
     private pipelineSize: number;
+    private keySubjects: Array<[string, string]>;
+    private validationPolicy: ValidationPolicy;
+    private quarantineTtlMs: number;
+    private formatPolicy?: FormatPolicy;
+    private subscriber?: Redis | Cluster;
+    private watcher?: Redis | Cluster;
+    private watchQueue: Promise<unknown> = Promise.resolve();
+    private messageHandlers = new Map<string, Set<MessageHandler<any>>>();
+    private loads = new Map<string, Promise<unknown>>();
+    private refreshing = new Set<string>();
 
     constructor(options: BinaryRedisOptions = {}) {
-        const { formatType, fallbackJson, pipelineSize, ...redisOptions } = options;
+        const {
+            cluster, clusterOptions, formatType, fallbackJson, pipelineSize, envelope, compression, protection, protobuf,
+            schemaRegistry, keySubjects, validate, onValidationError, quarantineTtlSeconds, metrics, extensions,
+            formatPolicy, ...redisOptions
+        } = options;
+
+        if (formatPolicy && envelope === false) {
+            throw new Error('A format policy mixes formats under one prefix, which requires the wire envelope');
+        }
         
-        this.client = new Redis({
+        const nodeOptions: RedisOptions = {
             ...redisOptions,
             lazyConnect: true,
             keepAlive: 30000,
-            retryDelayOnFailover: 100,
             maxRetriesPerRequest: 3
-        });
+        };
+        this.client = cluster
+            ? new Cluster(cluster, { retryDelayOnFailover: 100, ...clusterOptions, lazyConnect: true, redisOptions: nodeOptions })
+            : new Redis(nodeOptions);
         
         this.codec = new BinaryCodec({
             formatType: formatType || 'messagepack',
-            fallbackJson: fallbackJson !== false
+            fallbackJson: fallbackJson !== false,
+            envelope: envelope !== false,
+            compression,
+            protection,
+            protobuf,
+            registry: schemaRegistry,
+            validate,
+            metrics,
+            extensions
         });
         
         this.pipelineSize = pipelineSize || 100;
+        // Longest prefix first so `order:item:` wins over `order:`
+        this.keySubjects = Object.entries(keySubjects || {}).sort(([a], [b]) => b.length - a.length);
+        this.validationPolicy = onValidationError || 'reject';
+        this.quarantineTtlMs = (quarantineTtlSeconds || DEFAULT_QUARANTINE_TTL_SECONDS) * 1000;
+        this.formatPolicy = formatPolicy;
     }
 
     async connect(): Promise<void> {
@@ -44,12 +215,17 @@ export class BinaryRedisClient {
     }
 
     async disconnect(): Promise<void> {
+        this.subscriber?.disconnect();
+        this.watcher?.disconnect();
         await this.client.disconnect();
     }
 
-    async set<T>(key: string, value: T, options?: RedisSetOptions): Promise<'OK' | null> {
+    // null when NX or XX kept the value from being written; 'QUARANTINED' when it failed
+    // validation under the 'quarantine' policy and went to `quarantine:<key>` instead
+    async set<T>(key: string, value: T, options?: RedisSetOptions): Promise<'OK' | 'QUARANTINED' | null> {
         try {
-            const { buffer } = await this.codec.encode(value);
+            const buffer = await this.encodeValue(key, value);
+            if (!buffer) return 'QUARANTINED';
             
             if (options) {
                 const args: any[] = [];
@@ -72,7 +248,7 @@ export class BinaryRedisClient {
         try {
             const buffer = await this.client.getBuffer(key);
             if (buffer) {
-                return await this.codec.decode<T>(buffer);
+                return await this.decodeEntry<T>(key, buffer);
             }
             return null;
         } catch (error) {
@@ -83,12 +259,12 @@ export class BinaryRedisClient {
 
     async mget<T>(...keys: string[]): Promise<(T | null)[]> {
         try {
-            const buffers = await this.client.mgetBuffer(...keys);
+            const buffers = await this.mgetBuffers(keys);
             const results: (T | null)[] = [];
             
-            for (const buffer of buffers) {
+            for (const [index, buffer] of buffers.entries()) {
                 if (buffer) {
-                    results.push(await this.codec.decode<T>(buffer));
+                    results.push(await this.decodeEntry<T>(keys[index], buffer));
                 } else {
                     results.push(null);
                 }
@@ -102,68 +278,645 @@ export class BinaryRedisClient {
     }
 
     async del(...keys: string[]): Promise<number> {
-        return await this.client.del(...keys);
+        return await this.countPerSlot(keys, slotKeys => this.client.del(...slotKeys));
     }
 
     async exists(...keys: string[]): Promise<number> {
-        return await this.client.exists(...keys);
+        return await this.countPerSlot(keys, slotKeys => this.client.exists(...slotKeys));
     }
 
+    // Cache-aside. Concurrent calls for a key share one load within this process, and a
+    // `lock:<key>` lease lets one process run the loader while the others wait for its result.
+    // Values stored with set() are read too, and count as fresh until they expire.
+    async getOrLoad<T>(
+        key: string,
+        loader: () => Promise<T | null | undefined>,
+        options: CacheOptions
+    ): Promise<T | null> {
+        const pending = this.loads.get(key);
+        if (pending) {
+            return await pending as T | null;
+        }
+
+        const load = this.readThrough(key, loader, options).finally(() => this.loads.delete(key));
+        this.loads.set(key, load);
+        return await load;
+    }
+
+    // Values are encoded like hash fields: under a 'quarantine' policy an invalid one fails its operation
+    pipeline(): BinaryPipeline {
+        return new BinaryPipeline(this.client, this.pipelineCodec());
+    }
+
+    // MULTI/EXEC: the operations run atomically, and nothing is sent if any value fails to encode
+    multi(): BinaryPipeline {
+        return new BinaryPipeline(this.client, this.pipelineCodec(), true);
+    }
+
+    // Optimistic locking. `body` reads the watched keys through `tx` and returns `tx.multi()`
+    // with its writes; if another client changes a watched key first, the body runs again,
+    // and after `retries` conflicts WatchConflictError is thrown. WATCH state belongs to a
+    // connection, so these transactions take turns on a dedicated one. On a cluster the
+    // keys, and everything the transaction writes, must share a hash slot.
+    async watch<R extends unknown[]>(
+        keys: string[],
+        body: (tx: WatchedTransaction) => Promise<BinaryPipeline<R>> | BinaryPipeline<R>,
+        retries = 3
+    ): Promise<PipelineResults<R>> {
+        if (this.client.isCluster && commonSlot(keys) === undefined) {
+            throw new Error(`Cannot WATCH ${keys.join(', ')} together: they hash to different cluster slots`);
+        }
+
+        const run = async () => {
+            for (let attempt = 0; ; attempt++) {
+                const connection = this.watchConnection();
+                await connection.watch(...keys);
+                try {
+                    return await (await body(new WatchedTransaction(connection, this.pipelineCodec(), keys))).exec();
+                } catch (error) {
+                    if (!(error instanceof WatchConflictError) || attempt >= retries) throw error;
+                } finally {
+                    // EXEC already unwatched, unless the body threw or queued nothing
+                    await this.unwatch(connection, keys);
+                }
+            }
+        };
+
+        const result = this.watchQueue.then(run, run);
+        this.watchQueue = result.catch(() => undefined);
+        return await result;
+    }
+
+    // Errors are returned in place of their operation's result; pipeline() is the typed equivalent
     async pipelineBinaryOps<T>(operations: Array<{
         type: 'set' | 'get' | 'del';
         key: string;
         value?: T;
         options?: RedisSetOptions;
     }>): Promise<any[]> {
-        const pipeline = this.client.pipeline();
-        
+        const pipeline: BinaryPipeline<unknown[]> = this.pipeline();
         for (const op of operations) {
             switch (op.type) {
                 case 'set':
-                    if (op.value !== undefined) {
-                        const { buffer } = await this.codec.encode(op.value);
-                        if (op.options) {
-                            const args: any[] = [op.key, buffer];
-                            if (op.options.EX) args.push('EX', op.options.EX);
-                            if (op.options.PX) args.push('PX', op.options.PX);
-                            if (op.options.NX) args.push('NX');
-                            if (op.options.XX) args.push('XX');
-                            pipeline.set(...args);
-                        } else {
-                            pipeline.set(op.key, buffer);
-                        }
-                    }
+                    pipeline.set(op.key, op.value, op.options);
                     break;
                 case 'get':
-                    pipeline.getBuffer(op.key);
+                    pipeline.get(op.key);
                     break;
                 case 'del':
                     pipeline.del(op.key);
                     break;
             }
         }
-        
+
         const results = await pipeline.exec();
-        if (!results) return [];
-        
-        const decodedResults: any[] = [];
-        let opIndex = 0;
-        
-        for (const [error, result] of results) {
-            if (error) {
-                decodedResults.push(error);
-            } else {
-                const op = operations[opIndex];
-                if (op.type === 'get' && result) {
-                    decodedResults.push(await this.codec.decode(result as Buffer));
-                } else {
-                    decodedResults.push(result);
+        return results.map(result => result.ok ? result.value : result.error);
+    }
+
+    // Hashes: each field value is encoded on its own, so fields can be read individually
+    async hset<T>(key: string, fields: Record<string, T>): Promise<number> {
+        const encoded: Record<string, Buffer> = {};
+        for (const [field, value] of Object.entries(fields)) {
+            encoded[field] = await this.encodeMember(key, value);
+        }
+        return await this.client.hset(key, encoded);
+    }
+
+    async hget<T>(key: string, field: string): Promise<T | null> {
+        const buffer = await this.client.hgetBuffer(key, field);
+        return buffer ? await this.decodeMember<T>(key, buffer) : null;
+    }
+
+    async hgetall<T>(key: string): Promise<Record<string, T>> {
+        const buffers = await this.client.hgetallBuffer(key);
+        const fields: Record<string, T> = {};
+        for (const [field, buffer] of Object.entries(buffers)) {
+            fields[field] = await this.decodeMember<T>(key, buffer);
+        }
+        return fields;
+    }
+
+    // Lists
+    async lpush<T>(key: string, ...values: T[]): Promise<number> {
+        const buffers = await Promise.all(values.map(value => this.encodeMember(key, value)));
+        return await this.client.lpush(key, ...buffers);
+    }
+
+    async rpop<T>(key: string): Promise<T | null> {
+        const buffer = await this.client.rpopBuffer(key);
+        return buffer ? await this.decodeMember<T>(key, buffer) : null;
+    }
+
+    async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+        const buffers = await this.client.lrangeBuffer(key, start, stop);
+        return await Promise.all(buffers.map(buffer => this.decodeMember<T>(key, buffer)));
+    }
+
+    // Sorted sets: members are compared by their encoded bytes, so ZREM and re-adding only
+    // match while the format (and compression) that wrote a member is still the one in use,
+    // and never once members are encrypted, since every encryption uses a fresh IV
+    async zadd<T>(key: string, members: ScoredMember<T>[]): Promise<number> {
+        const args: Array<number | Buffer> = [];
+        for (const { value, score } of members) {
+            args.push(score, await this.encodeMember(key, value));
+        }
+        return await this.client.zadd(key, ...args);
+    }
+
+    async zrange<T>(key: string, start: number, stop: number): Promise<ScoredMember<T>[]> {
+        return await this.decodeScored<T>(key, await this.client.zrangeBuffer(key, start, String(stop), 'WITHSCORES'));
+    }
+
+    async zrangebyscore<T>(key: string, min: number | string, max: number | string): Promise<ScoredMember<T>[]> {
+        return await this.decodeScored<T>(key, await this.client.zrangebyscoreBuffer(key, min, max, 'WITHSCORES'));
+    }
+
+    async zrem<T>(key: string, ...values: T[]): Promise<number> {
+        const buffers = await Promise.all(values.map(value => this.encodeMember(key, value)));
+        return await this.client.zrem(key, ...buffers);
+    }
+
+    // Streams
+    async xadd<T>(key: string, value: T, options: StreamAddOptions = {}): Promise<string> {
+        const args: Array<string | number | Buffer> = [key];
+        if (options.maxLen !== undefined) args.push('MAXLEN', '~', options.maxLen);
+        args.push(options.id || '*', STREAM_FIELD, await this.encodeMember(key, value));
+        return (await this.client.callBuffer('XADD', ...args) as Buffer).toString();
+    }
+
+    // `streams` maps each stream key to the last id already seen ('$' for only new entries)
+    async xread<T>(streams: Record<string, string>, options: StreamReadOptions = {}): Promise<StreamEntry<T>[]> {
+        const args = [...this.streamReadArgs(options), 'STREAMS', ...Object.keys(streams), ...Object.values(streams)];
+        return await this.decodeStreamReply<T>(await this.client.callBuffer('XREAD', ...args) as StreamReply);
+    }
+
+    // Use '>' for entries never delivered to the group, or an id to re-read this consumer's pending ones
+    async xreadgroup<T>(
+        group: string,
+        consumer: string,
+        streams: Record<string, string>,
+        options: StreamReadOptions = {}
+    ): Promise<StreamEntry<T>[]> {
+        const args = [
+            'GROUP', group, consumer, ...this.streamReadArgs(options),
+            'STREAMS', ...Object.keys(streams), ...Object.values(streams)
+        ];
+        return await this.decodeStreamReply<T>(await this.client.callBuffer('XREADGROUP', ...args) as StreamReply);
+    }
+
+    async xack(key: string, group: string, ...ids: string[]): Promise<number> {
+        return await this.client.xack(key, group, ...ids);
+    }
+
+    // Pub/sub: a subscribed connection can't run other commands, so subscriptions get their own
+    async publish<T>(channel: string, message: T): Promise<number> {
+        return await this.client.publish(channel, await this.encodeMember(channel, message));
+    }
+
+    async subscribe<T>(channel: string, handler: MessageHandler<T>): Promise<void> {
+        const handlers = this.messageHandlers.get(channel);
+        if (handlers) {
+            handlers.add(handler);
+            return;
+        }
+
+        this.messageHandlers.set(channel, new Set([handler]));
+        try {
+            await this.subscriberConnection().subscribe(channel);
+        } catch (error) {
+            this.messageHandlers.delete(channel);
+            throw error;
+        }
+    }
+
+    // Without a handler, drops every handler for the channel
+    async unsubscribe<T>(channel: string, handler?: MessageHandler<T>): Promise<void> {
+        const handlers = this.messageHandlers.get(channel);
+        if (!handlers) return;
+
+        if (handler) handlers.delete(handler);
+        if (!handler || handlers.size === 0) {
+            this.messageHandlers.delete(channel);
+            await this.subscriber?.unsubscribe(channel);
+        }
+    }
+
+    private async readThrough<T>(
+        key: string,
+        loader: () => Promise<T | null | undefined>,
+        options: CacheOptions
+    ): Promise<T | null> {
+        const cached = await this.readCached<T>(key);
+        if (cached) {
+            if (cached.staleAt <= Date.now()) {
+                this.refreshInBackground(key, loader, options);
+            }
+            return cached.value;
+        }
+
+        const lockTimeoutMs = options.lockTimeoutMs || 5000;
+        const token = await this.acquireLock(key, lockTimeoutMs);
+        if (!token) {
+            const deadline = Date.now() + lockTimeoutMs;
+            while (Date.now() < deadline) {
+                await new Promise(resolve => setTimeout(resolve, LOCK_POLL_MS));
+                const loaded = await this.readCached<T>(key);
+                if (loaded) {
+                    return loaded.value;
                 }
+                // Released without storing anything (an uncached null, or a failed load)
+                if (!(await this.client.exists(`${LOCK_PREFIX}${key}`))) break;
             }
-            opIndex++;
+            // Rather than fail, load without the lock
         }
-        
-        return decodedResults;
+
+        try {
+            return await this.loadAndStore(key, loader, options);
+        } finally {
+            if (token) await this.releaseLock(key, token);
+        }
+    }
+
+    // Only one refresh per key per process, and none while another process holds the lock
+    private refreshInBackground<T>(key: string, loader: () => Promise<T | null | undefined>, options: CacheOptions): void {
+        if (this.refreshing.has(key)) return;
+        this.refreshing.add(key);
+
+        const refresh = async () => {
+            const token = await this.acquireLock(key, options.lockTimeoutMs || 5000);
+            if (!token) return;
+            try {
+                await this.loadAndStore(key, loader, options);
+            } finally {
+                await this.releaseLock(key, token);
+            }
+        };
+        refresh()
+            .catch(error => console.error(`Background refresh of ${key} failed:`, error))
+            .finally(() => this.refreshing.delete(key));
+    }
+
+    // A value that loaded but couldn't be cached is still returned
+    private async loadAndStore<T>(
+        key: string,
+        loader: () => Promise<T | null | undefined>,
+        options: CacheOptions
+    ): Promise<T | null> {
+        const value = (await loader()) ?? null;
+        try {
+            await this.storeCached(key, value, options);
+        } catch (error) {
+            console.error(`Failed to cache ${key}:`, error);
+        }
+        return value;
+    }
+
+    private async storeCached<T>(key: string, value: T | null, options: CacheOptions): Promise<void> {
+        const stretch = 1 + Math.random() * (options.jitter ?? 0.1);
+
+        if (value === null) {
+            if (!options.negativeTtlSeconds) return;
+            const ttlMs = Math.round(options.negativeTtlSeconds * 1000 * stretch);
+            const entry = writeCacheEntry({ staleAt: Date.now() + ttlMs, negative: true, payload: Buffer.alloc(0) });
+            await this.client.set(key, entry, 'PX', ttlMs);
+            return;
+        }
+
+        const payload = await this.encodeValue(key, value);
+        if (!payload) return; // Quarantined
+
+        const freshMs = Math.round(options.ttlSeconds * 1000 * stretch);
+        const ttlMs = freshMs + Math.round((options.staleWhileRevalidateSeconds || 0) * 1000);
+        await this.client.set(key, writeCacheEntry({ staleAt: Date.now() + freshMs, negative: false, payload }), 'PX', ttlMs);
+    }
+
+    private async readCached<T>(key: string): Promise<{ value: T | null; staleAt: number } | null> {
+        const buffer = await this.client.getBuffer(key);
+        if (!buffer) {
+            return null;
+        }
+        const entry = readCacheEntry(buffer);
+        return { value: await this.decodeEntry<T>(key, buffer), staleAt: entry ? entry.staleAt : Infinity };
+    }
+
+    private async acquireLock(key: string, leaseMs: number): Promise<string | null> {
+        const token = randomUUID();
+        const acquired = await this.client.set(`${LOCK_PREFIX}${key}`, token, 'PX', leaseMs, 'NX');
+        return acquired === 'OK' ? token : null;
+    }
+
+    private async releaseLock(key: string, token: string): Promise<void> {
+        await this.client.eval(RELEASE_LOCK, 1, `${LOCK_PREFIX}${key}`, token);
+    }
+
+    // A cluster refuses multi-key commands across slots, so those are sent once per slot
+    private async mgetBuffers(keys: string[]): Promise<(Buffer | null)[]> {
+        if (!this.client.isCluster) {
+            return await this.client.mgetBuffer(...keys);
+        }
+
+        const buffers: (Buffer | null)[] = new Array(keys.length);
+        await Promise.all(Array.from(groupBySlot(keys).values(), async indexes => {
+            const slotBuffers = await this.client.mgetBuffer(...indexes.map(index => keys[index]));
+            indexes.forEach((index, n) => buffers[index] = slotBuffers[n]);
+        }));
+        return buffers;
+    }
+
+    private async countPerSlot(keys: string[], command: (keys: string[]) => Promise<number>): Promise<number> {
+        if (!this.client.isCluster || keys.length === 0) {
+            return await command(keys);
+        }
+
+        const counts = await Promise.all(Array.from(groupBySlot(keys).values(),
+            indexes => command(indexes.map(index => keys[index]))));
+        return counts.reduce((total, count) => total + count, 0);
+    }
+
+    // `queue` adds the same commands for every key; the replies come back grouped by key, in key order
+    private async pipelinePerSlot(
+        keys: string[],
+        queue: (pipeline: ChainableCommander, key: string, index: number) => void
+    ): Promise<Array<Array<[Error | null, unknown]>>> {
+        const groups = this.client.isCluster ? Array.from(groupBySlot(keys).values()) : [keys.map((_, index) => index)];
+        const results: Array<Array<[Error | null, unknown]>> = new Array(keys.length);
+
+        await Promise.all(groups.map(async indexes => {
+            const pipeline = this.client.pipeline();
+            indexes.forEach(index => queue(pipeline, keys[index], index));
+            const replies = (await pipeline.exec())!;
+            const perKey = replies.length / indexes.length;
+            indexes.forEach((index, n) => results[index] = replies.slice(n * perKey, (n + 1) * perKey));
+        }));
+        return results;
+    }
+
+    private watchConnection(): Redis | Cluster {
+        if (!this.watcher) {
+            this.watcher = this.duplicateClient();
+        }
+        return this.watcher;
+    }
+
+    // UNWATCH carries no key, so a cluster would send it to any node: it goes to the master
+    // holding the watched slot instead, and if that can't be told the connection is dropped
+    private async unwatch(connection: Redis | Cluster, keys: string[]): Promise<void> {
+        if (!(connection instanceof Cluster)) {
+            await connection.unwatch();
+            return;
+        }
+        const owner = connection.slots[keySlot(keys[0])]?.[0];
+        const node = connection.nodes('master').find(node => `${node.options.host}:${node.options.port}` === owner);
+        if (node) {
+            await node.unwatch();
+        } else {
+            connection.disconnect();
+            this.watcher = undefined;
+        }
+    }
+
+    private pipelineCodec(): PipelineCodec {
+        return {
+            encode: (key, value) => this.encodeMember(key, value),
+            decode: (key, buffer) => this.decodeEntry(key, buffer),
+            decodeMember: (key, buffer) => this.decodeMember(key, buffer)
+        };
+    }
+
+    private subscriberConnection(): Redis | Cluster {
+        if (!this.subscriber) {
+            // duplicate() keeps lazyConnect, and subscribe() connects on first use
+            const subscriber = this.duplicateClient();
+            subscriber.on('messageBuffer', (channel: Buffer, message: Buffer) => {
+                void this.dispatchMessage(channel.toString(), message);
+            });
+            this.subscriber = subscriber;
+        }
+        return this.subscriber;
+    }
+
+    // Same nodes and options, its own connections; Redis and Cluster declare duplicate() differently
+    private duplicateClient(): Redis | Cluster {
+        return this.client instanceof Cluster ? this.client.duplicate() : this.client.duplicate();
+    }
+
+    // A message that can't be decoded, or a handler that throws, is logged and dropped:
+    // pub/sub has no redelivery to fall back on
+    private async dispatchMessage(channel: string, message: Buffer): Promise<void> {
+        const handlers = this.messageHandlers.get(channel);
+        if (!handlers) return;
+
+        let value: unknown;
+        try {
+            value = await this.decodeMember(channel, message);
+        } catch (error) {
+            console.error(`Failed to decode message on ${channel}:`, error);
+            return;
+        }
+
+        for (const handler of handlers) {
+            try {
+                await handler(value, channel);
+            } catch (error) {
+                console.error(`Message handler for ${channel} failed:`, error);
+            }
+        }
+    }
+
+    private streamReadArgs(options: StreamReadOptions): Array<string | number> {
+        const args: Array<string | number> = [];
+        if (options.count !== undefined) args.push('COUNT', options.count);
+        if (options.blockMs !== undefined) args.push('BLOCK', options.blockMs);
+        return args;
+    }
+
+    // Entries without our field (written by something else, or deleted while pending) are skipped
+    private async decodeStreamReply<T>(reply: StreamReply): Promise<StreamEntry<T>[]> {
+        const streams: Array<[Buffer, StreamItems]> = [];
+        const flat = reply && Buffer.isBuffer(reply[0]);
+        for (let i = 0; reply && i < reply.length; i += flat ? 2 : 1) {
+            streams.push(flat ? [reply[i] as Buffer, reply[i + 1] as StreamItems] : reply[i] as [Buffer, StreamItems]);
+        }
+
+        const entries: StreamEntry<T>[] = [];
+        for (const [streamBuffer, items] of streams) {
+            const stream = streamBuffer.toString();
+            for (const [id, fields] of items) {
+                const index = fields ? fields.findIndex((field, i) => i % 2 === 0 && field.toString() === STREAM_FIELD) : -1;
+                if (index < 0) continue;
+                entries.push({ stream, id: id.toString(), value: await this.decodeMember<T>(stream, fields![index + 1]) });
+            }
+        }
+        return entries;
+    }
+
+    // WITHSCORES replies are [member, score, ...] over RESP2 and [[member, score], ...] over RESP3
+    private async decodeScored<T>(key: string, reply: unknown[]): Promise<ScoredMember<T>[]> {
+        const pairs = Array.isArray(reply[0])
+            ? reply as Array<[Buffer, unknown]>
+            : Array.from({ length: reply.length / 2 }, (_, i) => [reply[i * 2], reply[i * 2 + 1]] as [Buffer, unknown]);
+
+        const members: ScoredMember<T>[] = [];
+        for (const [member, score] of pairs) {
+            members.push({ value: await this.decodeMember<T>(key, member), score: Number(String(score)) });
+        }
+        return members;
+    }
+
+    // Fields, members, entries and messages share their key's format, subject and labels,
+    // but one of them can't be moved aside, so 'quarantine' rejects instead
+    private async encodeMember<T>(key: string, value: T): Promise<Buffer> {
+        return (await this.encodeValue(key, value, false))!;
+    }
+
+    private async decodeMember<T>(key: string, buffer: Buffer): Promise<T> {
+        return (await this.decodeValue<T>(key, buffer, false)) as T;
+    }
+
+    private async encodeValue<T>(key: string, value: T, canQuarantine = true): Promise<Buffer | null> {
+        const subject = this.subjectFor(key);
+        const labels = this.labelsFor(key);
+        const decision = this.formatPolicy?.decide('redis', key, key);
+        try {
+            return (await this.codec.encode(value, subject, { labels, ...decision })).buffer;
+        } catch (error) {
+            if (!(error instanceof CodecValidationError) || this.validationPolicy === 'reject') throw error;
+            if (this.validationPolicy === 'log') {
+                console.warn(`Storing invalid value for key ${key}:`, error.issues);
+                return (await this.codec.encode(value, subject, { validate: false, labels, ...decision })).buffer;
+            }
+            if (!canQuarantine) throw error;
+            console.warn(`Quarantining invalid value for key ${key}:`, error.issues);
+            await this.client.set(`${QUARANTINE_PREFIX}${key}`, JSON.stringify(value, jsonReplacer), 'PX', this.quarantineTtlMs);
+            return null;
+        }
+    }
+
+    // String values may be wrapped by getOrLoad(); a cached miss reads as null
+    private async decodeEntry<T>(key: string, buffer: Buffer): Promise<T | null> {
+        const entry = readCacheEntry(buffer);
+        if (!entry) {
+            return await this.decodeValue<T>(key, buffer);
+        }
+        return entry.negative ? null : await this.decodeValue<T>(key, entry.payload);
+    }
+
+    private async decodeValue<T>(key: string, buffer: Buffer, canQuarantine = true): Promise<T | null> {
+        try {
+            return await this.codec.decode<T>(buffer, this.subjectFor(key), { labels: this.labelsFor(key) });
+        } catch (error) {
+            if (!(error instanceof CodecValidationError) || this.validationPolicy === 'reject') throw error;
+            if (this.validationPolicy === 'log') {
+                console.warn(`Returning invalid value for key ${key}:`, error.issues);
+                return error.value as T;
+            }
+            if (!canQuarantine) throw error;
+            console.warn(`Quarantining invalid value for key ${key}:`, error.issues);
+            await this.moveToQuarantine(key);
+            return null;
+        }
+    }
+
+    // Keeps the raw bytes for inspection, for the quarantine TTL at most. RENAME can't cross
+    // cluster slots, and `quarantine:<key>` only shares its key's slot when the key has a hash tag.
+    private async moveToQuarantine(key: string): Promise<void> {
+        const quarantineKey = `${QUARANTINE_PREFIX}${key}`;
+        if (!this.client.isCluster || keySlot(key) === keySlot(quarantineKey)) {
+            await this.client.eval(QUARANTINE_KEY, 2, key, quarantineKey, this.quarantineTtlMs);
+            return;
+        }
+
+        const [dump, pttl] = await Promise.all([this.client.dumpBuffer(key), this.client.pttl(key)]);
+        if (!dump) return; // Already gone
+        const ttlMs = pttl > 0 ? Math.min(pttl, this.quarantineTtlMs) : this.quarantineTtlMs;
+        await this.client.restore(quarantineKey, ttlMs, dump, 'REPLACE');
+        await this.client.eval(DELETE_IF_DUMPED, 1, key, dump);
+    }
+
+    private subjectFor(key: string): string | undefined {
+        return this.keySubjects.find(([prefix]) => key.startsWith(prefix))?.[1];
+    }
+
+    // `order:123` -> `order:`; whole keys would explode label cardinality
+    private labelsFor(key: string): MetricLabels {
+        const separator = key.indexOf(':');
+        return { component: 'redis', target: separator >= 0 ? key.slice(0, separator + 1) : '' };
+    }
+
+    get batchSize(): number {
+        return this.pipelineSize;
+    }
+
+    // The rest of this block is raw access for tooling such as redis-migration.ts:
+    // values are read and written as bytes and nothing is quarantined.
+
+    // Only string keys: hashes, lists and the like under the same pattern aren't codec values.
+    // A cluster's masters are scanned one after another, with cursors of the form
+    // `<master>:<cursor>`; '0' still starts and ends the scan.
+    async scanKeys(pattern: string, cursor = '0', count = this.pipelineSize): Promise<{ cursor: string; keys: string[] }> {
+        if (!(this.client instanceof Cluster)) {
+            const [next, keys] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', count, 'TYPE', 'string');
+            return { cursor: next, keys };
+        }
+
+        // Sorted by address so a resumed scan visits the masters in the same order
+        const masters = this.client.nodes('master').sort((a, b) =>
+            `${a.options.host}:${a.options.port}`.localeCompare(`${b.options.host}:${b.options.port}`));
+        const [master, masterCursor] = cursor === '0' ? [0, '0'] : [parseInt(cursor), cursor.slice(cursor.indexOf(':') + 1)];
+        if (!masters[master]) {
+            throw new Error(`Cursor ${cursor} names master ${master}, but the cluster has ${masters.length}`);
+        }
+
+        const [next, keys] = await masters[master].scan(masterCursor, 'MATCH', pattern, 'COUNT', count, 'TYPE', 'string');
+        if (next !== '0') {
+            return { cursor: `${master}:${next}`, keys };
+        }
+        return { cursor: master + 1 < masters.length ? `${master + 1}:0` : '0', keys };
+    }
+
+    async readStored(keys: string[]): Promise<StoredValue[]> {
+        if (keys.length === 0) return [];
+
+        const results = await this.pipelinePerSlot(keys, (pipeline, key) => pipeline.getBuffer(key).pttl(key));
+
+        return keys.map((key, index) => {
+            const [[getError, buffer], [pttlError, pttl]] = results[index];
+            if (getError || pttlError) {
+                throw getError || pttlError;
+            }
+            return { key, buffer: buffer as Buffer | null, pttl: pttl as number };
+        });
+    }
+
+    // `format` says how to read a headerless value; enveloped values name their own
+    async decodeStored<T>(key: string, buffer: Buffer, format: SerializationFormat): Promise<T> {
+        return await this.codec.decode<T>(buffer, this.subjectFor(key), { labels: this.labelsFor(key), format });
+    }
+
+    // Always the configured format: a format policy would undo what a migration is for
+    async encodeStored<T>(key: string, value: T): Promise<Buffer> {
+        return (await this.codec.encode(value, this.subjectFor(key), { labels: this.labelsFor(key) })).buffer;
+    }
+
+    // One result per entry: false when the key changed or vanished since it was read
+    async replaceStored(replacements: StoredReplacement[]): Promise<boolean[]> {
+        if (replacements.length === 0) return [];
+
+        const results = await this.pipelinePerSlot(replacements.map(({ key }) => key), (pipeline, key, index) => {
+            const { expected, buffer } = replacements[index];
+            pipeline.eval(REPLACE_IF_UNCHANGED, 1, key, expected, buffer);
+        });
+
+        return results.map(([[error, replaced]]) => {
+            if (error) throw error;
+            return replaced === 1;
+        });
+    }
+
+    // Lua over raw bytes, for components such as the outbox and dedupe stores that keep data
+    // the codec didn't write. Bulk replies come back as Buffers; on a cluster `keys` must share a slot.
+    async evalRaw(script: string, keys: string[], args: Array<string | number | Buffer> = []): Promise<unknown> {
+        return await this.client.callBuffer('EVAL', script, keys.length, ...keys, ...args);
     }
 
     // Health check method
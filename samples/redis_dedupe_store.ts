@@ -0,0 +1,43 @@
+// redis-client/dedupe-store.ts
+import { BinaryRedisClient } from './binary-redis';
+
+// A claim is a short-lived 'processing' marker that becomes 'done' for the dedupe window.
+// Markers are plain strings rather than codec values, so any client format works.
+const CLAIM = `
+if redis.call('SET', KEYS[1], 'processing', 'NX', 'PX', ARGV[1]) then
+    return 'claimed'
+end
+return redis.call('GET', KEYS[1])`;
+
+// Only an unfinished claim is given back; a 'done' marker stays for its TTL
+const RELEASE = `
+if redis.call('GET', KEYS[1]) == 'processing' then
+    return redis.call('DEL', KEYS[1])
+end
+return 0`;
+
+const COMPLETE = `return redis.call('SET', KEYS[1], 'done', 'EX', ARGV[1])`;
+
+export const DEDUPE_PREFIX = 'dedupe:';
+
+// Processed-message markers for KafkaBinaryClient's `dedupe` option (kafka-services/src/dedupe.ts)
+export class RedisDedupeStore {
+    constructor(private redis: BinaryRedisClient, private prefix = DEDUPE_PREFIX) {}
+
+    async claim(id: string, leaseSeconds: number): Promise<'claimed' | 'processing' | 'done'> {
+        const result = await this.redis.evalRaw(CLAIM, [this.key(id)], [Math.round(leaseSeconds * 1000)]);
+        return String(result) as 'claimed' | 'processing' | 'done';
+    }
+
+    async complete(id: string, ttlSeconds: number): Promise<void> {
+        await this.redis.evalRaw(COMPLETE, [this.key(id)], [Math.ceil(ttlSeconds)]);
+    }
+
+    async release(id: string): Promise<void> {
+        await this.redis.evalRaw(RELEASE, [this.key(id)]);
+    }
+
+    private key(id: string): string {
+        return `${this.prefix}${id}`;
+    }
+}
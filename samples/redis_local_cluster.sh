@@ -0,0 +1,68 @@
+#!/usr/bin/env bash
+# redis-client/scripts/local-cluster.sh
+# Local multi-node Redis for trying BinaryRedisClient's cluster and sentinel modes:
+#
+#   ./local-cluster.sh cluster   # 3 masters + 3 replicas on 7000-7005
+#                                # -> REDIS_CLUSTER_NODES=127.0.0.1:7000
+#   ./local-cluster.sh sentinel  # master 6380, replica 6381, sentinels 26379-26381
+#                                # -> REDIS_SENTINELS=127.0.0.1:26379 REDIS_SENTINEL_MASTER=mymaster
+#   ./local-cluster.sh stop      # shuts down whichever is running
+#
+# Needs redis-server and redis-cli 5 or later on PATH. Data lives under $REDIS_LOCAL_DIR.
+set -euo pipefail
+
+DIR="${REDIS_LOCAL_DIR:-/tmp/redis-local}"
+CLUSTER_PORTS=(7000 7001 7002 7003 7004 7005)
+SENTINEL_DATA_PORTS=(6380 6381)
+SENTINEL_PORTS=(26379 26380 26381)
+
+start_node() {
+    local port=$1; shift
+    mkdir -p "$DIR/$port"
+    redis-server --port "$port" --dir "$DIR/$port" --daemonize yes \
+        --logfile "$DIR/$port/redis.log" --pidfile "$DIR/$port/redis.pid" --save '' --appendonly no "$@"
+}
+
+wait_for() {
+    for _ in $(seq 50); do
+        redis-cli -p "$1" ping >/dev/null 2>&1 && return 0
+        sleep 0.1
+    done
+    echo "Redis on port $1 did not start, see $DIR/$1/redis.log" >&2
+    exit 1
+}
+
+case "${1:-}" in
+    cluster)
+        for port in "${CLUSTER_PORTS[@]}"; do
+            start_node "$port" --cluster-enabled yes --cluster-config-file "$DIR/$port/nodes.conf" --cluster-node-timeout 5000
+        done
+        for port in "${CLUSTER_PORTS[@]}"; do wait_for "$port"; done
+        redis-cli --cluster create $(printf '127.0.0.1:%s ' "${CLUSTER_PORTS[@]}") --cluster-replicas 1 --cluster-yes
+        echo "REDIS_CLUSTER_NODES=127.0.0.1:${CLUSTER_PORTS[0]}"
+        ;;
+    sentinel)
+        start_node "${SENTINEL_DATA_PORTS[0]}"
+        start_node "${SENTINEL_DATA_PORTS[1]}" --replicaof 127.0.0.1 "${SENTINEL_DATA_PORTS[0]}"
+        for port in "${SENTINEL_PORTS[@]}"; do
+            mkdir -p "$DIR/$port"
+            # Sentinel rewrites its config file, so each one gets its own
+            printf 'port %s\nsentinel monitor mymaster 127.0.0.1 %s 2\nsentinel down-after-milliseconds mymaster 5000\n' \
+                "$port" "${SENTINEL_DATA_PORTS[0]}" > "$DIR/$port/sentinel.conf"
+            redis-server "$DIR/$port/sentinel.conf" --sentinel --daemonize yes \
+                --logfile "$DIR/$port/redis.log" --pidfile "$DIR/$port/redis.pid"
+        done
+        for port in "${SENTINEL_DATA_PORTS[@]}" "${SENTINEL_PORTS[@]}"; do wait_for "$port"; done
+        echo "REDIS_SENTINELS=127.0.0.1:${SENTINEL_PORTS[0]} REDIS_SENTINEL_MASTER=mymaster"
+        ;;
+    stop)
+        for port in "${CLUSTER_PORTS[@]}" "${SENTINEL_DATA_PORTS[@]}" "${SENTINEL_PORTS[@]}"; do
+            redis-cli -p "$port" shutdown nosave >/dev/null 2>&1 || true
+        done
+        rm -rf "$DIR"
+        ;;
+    *)
+        echo "usage: $0 cluster|sentinel|stop" >&2
+        exit 1
+        ;;
+esac
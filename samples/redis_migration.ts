@@ -0,0 +1,250 @@
+// redis-client/redis-migration.ts
+import { ProtobufCodecOptions, SerializationFormat } from '../shared-libs/serialization/binary-codec';
+import { messagePackLength } from '../shared-libs/serialization/codec-stream';
+import { CompressionOptions, isCompressionAlgorithm } from '../shared-libs/serialization/compression';
+import { LocalKeyring, sealingKeyIds } from '../shared-libs/serialization/payload-protection';
+import { readEnvelope } from '../shared-libs/serialization/wire-envelope';
+import { BinaryRedisClient, StoredReplacement } from './binary-redis';
+import { readCacheEntry, writeCacheEntry } from './cache-entry';
+
+// Rewrites every string value under a pattern in the client's configured format, so that
+// switching `formatType` doesn't strand the values already cached. Values are only
+// replaced if they are unchanged since they were read, and keep their remaining TTL.
+export interface RedisMigrationOptions {
+    pattern: string;                       // SCAN pattern, e.g. 'order:*'
+    legacyFormats?: SerializationFormat[]; // Headerless values are tried as these, in order (default messagepack, json)
+    dryRun?: boolean;                      // Detect and re-encode, but write nothing
+    cursor?: string;                       // Resume from the cursor a previous run or onBatch reported
+    maxFailures?: number;                  // Stop once this many values have failed (default unlimited)
+    onBatch?: (report: RedisMigrationReport) => void | Promise<void>;
+}
+
+export type DetectedFormat = SerializationFormat | 'unknown';
+
+export interface MigrationFailure {
+    key: string;
+    format: DetectedFormat;
+    error: string;
+}
+
+export interface RedisMigrationReport {
+    pattern: string;
+    dryRun: boolean;
+    cursor: string;      // '0' once the scan is complete
+    complete: boolean;
+    scanned: number;
+    migrated: number;    // Rewritten (or, in a dry run, would have been)
+    unchanged: number;   // Already in the configured format, with the same envelope flags, schema and keys
+    skipped: number;     // Expired, deleted or rewritten by someone else mid-migration
+    failed: number;
+    detected: Partial<Record<DetectedFormat, number>>;
+    failures: MigrationFailure[]; // The first 100
+}
+
+const MAX_REPORTED_FAILURES = 100;
+
+export async function migrateRedisFormat(
+    client: BinaryRedisClient,
+    options: RedisMigrationOptions
+): Promise<RedisMigrationReport> {
+    const { pattern, legacyFormats = ['messagepack', 'json'], dryRun = false, maxFailures } = options;
+
+    const report: RedisMigrationReport = {
+        pattern,
+        dryRun,
+        cursor: options.cursor || '0',
+        complete: false,
+        scanned: 0,
+        migrated: 0,
+        unchanged: 0,
+        skipped: 0,
+        failed: 0,
+        detected: {},
+        failures: []
+    };
+
+    do {
+        const { cursor, keys } = await client.scanKeys(pattern, report.cursor, client.batchSize);
+        const replacements: StoredReplacement[] = [];
+
+        for (const stored of await client.readStored(keys)) {
+            report.scanned++;
+            if (!stored.buffer) {
+                report.skipped++;
+                continue;
+            }
+
+            // getOrLoad() entries are re-encoded inside their header; cached misses have nothing to convert
+            const entry = readCacheEntry(stored.buffer);
+            if (entry?.negative) {
+                report.unchanged++;
+                continue;
+            }
+            const payload = entry ? entry.payload : stored.buffer;
+
+            const format = detectFormat(payload, legacyFormats);
+            report.detected[format] = (report.detected[format] || 0) + 1;
+
+            try {
+                if (format === 'unknown') {
+                    throw new Error(`Not an enveloped value or any of ${legacyFormats.join(', ')}`);
+                }
+                const value = await client.decodeStored(stored.key, payload, format);
+                const encoded = await client.encodeStored(stored.key, value);
+                if (alreadyMigrated(payload, encoded)) {
+                    report.unchanged++;
+                } else {
+                    const buffer = entry ? writeCacheEntry({ ...entry, payload: encoded }) : encoded;
+                    replacements.push({ key: stored.key, expected: stored.buffer, buffer });
+                }
+            } catch (error) {
+                recordFailure(report, stored.key, format, error);
+            }
+        }
+
+        if (dryRun) {
+            report.migrated += replacements.length;
+        } else {
+            const replaced = await client.replaceStored(replacements);
+            report.migrated += replaced.filter(Boolean).length;
+            report.skipped += replaced.filter(done => !done).length;
+        }
+
+        // Only advanced once the batch is written, so resuming repeats a batch rather than skipping one
+        report.cursor = cursor;
+        report.complete = cursor === '0';
+        await options.onBatch?.(report);
+
+        if (maxFailures !== undefined && report.failed >= maxFailures) {
+            console.error(`Stopping migration of ${pattern} after ${report.failed} failures at cursor ${report.cursor}`);
+            return report;
+        }
+    } while (!report.complete);
+
+    return report;
+}
+
+// An envelope names its format; a headerless value is the first candidate that parses
+// completely. Protobuf can't be recognised from its bytes, so it only matches by decoding.
+// The one overlap between the others is a single byte '0'-'9', both a JSON digit and a
+// MessagePack fixint, so MessagePack goes first by default: a bare digit was rarely cached as JSON.
+export function detectFormat(buffer: Buffer, candidates: SerializationFormat[]): DetectedFormat {
+    const envelope = readEnvelope(buffer);
+    if (envelope) {
+        return envelope.header.format;
+    }
+    return candidates.find(format => looksLike(format, buffer)) || 'unknown';
+}
+
+// msgpack-lite's decode() ignores trailing bytes, which would let most byte strings pass
+// as a small integer, so MessagePack has to fill the buffer with exactly one value
+function looksLike(format: SerializationFormat, buffer: Buffer): boolean {
+    try {
+        if (format === 'json') {
+            JSON.parse(buffer.toString('utf-8'));
+            return true;
+        }
+        if (format === 'messagepack') {
+            return messagePackLength(buffer) === buffer.length;
+        }
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// Enveloped values are judged by their header and the keys they were sealed with rather than
+// byte for byte, since every encryption takes a fresh IV: one written in the target format,
+// with the same compression, protection flags, schema and current keys, needs no rewrite
+function alreadyMigrated(stored: Buffer, encoded: Buffer): boolean {
+    const before = readEnvelope(stored);
+    const after = readEnvelope(encoded);
+    if (!before || !after) {
+        return stored.equals(encoded);
+    }
+    const sameHeader = before.header.format === after.header.format
+        && before.header.flags === after.header.flags
+        && before.header.schemaId === after.header.schemaId
+        && before.header.schemaVersion === after.header.schemaVersion;
+    if (!sameHeader) return false;
+
+    const was = sealingKeyIds(before);
+    const now = sealingKeyIds(after);
+    return was.signedWith === now.signedWith && was.encryptedWith === now.encryptedWith;
+}
+
+function recordFailure(report: RedisMigrationReport, key: string, format: DetectedFormat, error: unknown): void {
+    report.failed++;
+    if (report.failures.length < MAX_REPORTED_FAILURES) {
+        report.failures.push({ key, format, error: error instanceof Error ? error.message : String(error) });
+    }
+}
+
+// ts-node redis-client/redis-migration.ts 'order:*' --to messagepack [--dry-run] [--cursor N]
+// Connection settings come from REDIS_HOST/REDIS_PORT or REDIS_CLUSTER_NODES, like the services.
+// Values must be read and rewritten as the services do, so the same settings apply:
+// SERIALIZATION_COMPRESSION, PAYLOAD_KEYRING_FILE (values are encrypted with its current key)
+// and PROTOBUF_PROTO_FILES (comma-separated) with PROTOBUF_MESSAGE_TYPE, which --to protobuf needs.
+if (require.main === module) {
+    const args = process.argv.slice(2);
+    const flag = (name: string) => {
+        const index = args.indexOf(name);
+        return index >= 0 ? args[index + 1] : undefined;
+    };
+
+    const formatType = (flag('--to') || 'messagepack') as SerializationFormat;
+    const protobuf: ProtobufCodecOptions | undefined = process.env.PROTOBUF_PROTO_FILES
+        ? { protoFiles: process.env.PROTOBUF_PROTO_FILES.split(','), messageType: process.env.PROTOBUF_MESSAGE_TYPE }
+        : undefined;
+    const algorithm = process.env.SERIALIZATION_COMPRESSION;
+
+    if (!['json', 'messagepack', 'protobuf'].includes(formatType)) {
+        throw new Error(`Unknown target format "${formatType}"`);
+    }
+    if (formatType === 'protobuf' && !protobuf?.messageType) {
+        throw new Error('--to protobuf needs PROTOBUF_PROTO_FILES and PROTOBUF_MESSAGE_TYPE');
+    }
+    let compression: CompressionOptions | undefined;
+    if (algorithm) {
+        if (!isCompressionAlgorithm(algorithm)) {
+            throw new Error(`Unknown SERIALIZATION_COMPRESSION "${algorithm}"`);
+        }
+        compression = { algorithm };
+    }
+    const keyring = process.env.PAYLOAD_KEYRING_FILE ? LocalKeyring.fromFile(process.env.PAYLOAD_KEYRING_FILE) : undefined;
+
+    const client = new BinaryRedisClient({
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379'),
+        cluster: process.env.REDIS_CLUSTER_NODES?.split(',').map(node => {
+            const [host, port] = node.trim().split(':');
+            return { host, port: parseInt(port || '6379') };
+        }),
+        formatType,
+        fallbackJson: false,
+        compression,
+        protection: keyring && { keyring, encrypt: true },
+        protobuf
+    });
+
+    client.connect()
+        .then(() => migrateRedisFormat(client, {
+            pattern: args[0] || '*',
+            dryRun: args.includes('--dry-run'),
+            cursor: flag('--cursor'),
+            onBatch: report => console.log(
+                `cursor ${report.cursor}: ${report.scanned} scanned, ${report.migrated} migrated, ${report.failed} failed`)
+        }))
+        .then(report => {
+            console.log(JSON.stringify(report, null, 2));
+            process.exitCode = report.failed > 0 ? 1 : 0;
+        })
+        .catch(error => {
+            console.error('Migration failed:', error);
+            process.exitCode = 1;
+        })
+        .finally(() => {
+            keyring?.close();
+            return client.disconnect();
+        });
+}
@@ -0,0 +1,138 @@
+// redis-client/outbox-store.ts
+import { BinaryRedisClient } from './binary-redis';
+import { hashTag } from './cluster-keys';
+
+// Entries are stored as given in a hash, and scheduled in a sorted set scored by when they
+// are next due. Claiming pushes an entry's score past its lease, so a relay that dies
+// mid-publish only delays it. A second sorted set keeps the order entries were added in, which
+// claims walk so that a key's entries go out in order. All keys of one outbox share a hash tag
+// for cluster mode.
+
+// KEYS: pending, entries, queued, keys, sequence. ARGV: now, id, payload, key ('' for none)...
+const ADD = `
+for i = 2, #ARGV, 3 do
+    redis.call('HSET', KEYS[2], ARGV[i], ARGV[i + 1])
+    redis.call('ZADD', KEYS[1], ARGV[1], ARGV[i])
+    redis.call('ZADD', KEYS[3], 'NX', redis.call('INCR', KEYS[5]), ARGV[i])
+    if ARGV[i + 2] ~= '' then
+        redis.call('HSET', KEYS[4], ARGV[i], ARGV[i + 2])
+    end
+end
+return (#ARGV - 1) / 3`;
+
+// KEYS: pending, entries, attempts, queued, keys. ARGV: now, lease end, limit. Returns id,
+// payload, attempts... A key's first entry that isn't due (claimed, or waiting to retry) holds
+// back its later ones. Walks the whole queue, which is short unless Kafka is unreachable.
+const CLAIM = `
+local claimed = {}
+local held = {}
+local count = 0
+for _, id in ipairs(redis.call('ZRANGE', KEYS[4], 0, -1)) do
+    local score = redis.call('ZSCORE', KEYS[1], id)
+    local key = redis.call('HGET', KEYS[5], id)
+    if score and not (key and held[key]) then
+        if tonumber(score) <= tonumber(ARGV[1]) then
+            redis.call('ZADD', KEYS[1], ARGV[2], id)
+            table.insert(claimed, id)
+            table.insert(claimed, redis.call('HGET', KEYS[2], id) or '')
+            table.insert(claimed, redis.call('HGET', KEYS[3], id) or 0)
+            count = count + 1
+            if count >= tonumber(ARGV[3]) then break end
+        elseif key then
+            held[key] = true
+        end
+    end
+end
+return claimed`;
+
+// KEYS: pending, entries, attempts, queued, keys. ARGV: ids
+const COMPLETE = `
+for _, id in ipairs(ARGV) do
+    redis.call('ZREM', KEYS[1], id)
+    redis.call('HDEL', KEYS[2], id)
+    redis.call('HDEL', KEYS[3], id)
+    redis.call('ZREM', KEYS[4], id)
+    redis.call('HDEL', KEYS[5], id)
+end
+return #ARGV`;
+
+// KEYS: pending, attempts. ARGV: due at, id. A completed entry isn't brought back
+const RETRY = `
+if not redis.call('ZSCORE', KEYS[1], ARGV[2]) then
+    return 0
+end
+redis.call('ZADD', KEYS[1], ARGV[1], ARGV[2])
+return redis.call('HINCRBY', KEYS[2], ARGV[2], 1)`;
+
+// KEYS: pending. ARGV: now, ids
+const RELEASE = `
+for i = 2, #ARGV do
+    redis.call('ZADD', KEYS[1], 'XX', ARGV[1], ARGV[i])
+end
+return #ARGV - 1`;
+
+// KEYS: pending, failed, queued, keys. ARGV: now, id. The entry's payload stays for inspection;
+// it no longer holds back its key's later entries
+const FAIL = `
+redis.call('ZREM', KEYS[1], ARGV[2])
+redis.call('ZREM', KEYS[3], ARGV[2])
+redis.call('HDEL', KEYS[4], ARGV[2])
+return redis.call('ZADD', KEYS[2], ARGV[1], ARGV[2])`;
+
+// Storage for kafka-services/src/outbox.ts, under `outbox:{<name>}:pending` and so on
+export class RedisOutboxStore {
+    private pending: string;
+    private entries: string;
+    private attempts: string;
+    private queued: string;
+    private keys: string;
+    private sequence: string;
+    private failed: string;
+
+    constructor(private redis: BinaryRedisClient, name = 'default') {
+        const base = `outbox:${hashTag(name)}`;
+        this.pending = `${base}:pending`;
+        this.entries = `${base}:entries`;
+        this.attempts = `${base}:attempts`;
+        this.queued = `${base}:queued`;
+        this.keys = `${base}:keys`;
+        this.sequence = `${base}:sequence`;
+        this.failed = `${base}:failed`;
+    }
+
+    async add(entries: Array<{ id: string; payload: Buffer; key?: string }>): Promise<void> {
+        if (entries.length === 0) return;
+        await this.redis.evalRaw(ADD, [this.pending, this.entries, this.queued, this.keys, this.sequence],
+            [Date.now(), ...entries.flatMap(({ id, payload, key }) => [id, payload, key ?? ''])]);
+    }
+
+    async claim(limit: number, leaseMs: number): Promise<Array<{ id: string; payload: Buffer; attempts: number }>> {
+        const now = Date.now();
+        const reply = await this.redis.evalRaw(CLAIM, [this.pending, this.entries, this.attempts, this.queued, this.keys],
+            [now, now + leaseMs, limit]) as Array<Buffer | number>;
+
+        const claimed: Array<{ id: string; payload: Buffer; attempts: number }> = [];
+        for (let i = 0; i < reply.length; i += 3) {
+            claimed.push({ id: reply[i].toString(), payload: reply[i + 1] as Buffer, attempts: Number(reply[i + 2]) });
+        }
+        return claimed;
+    }
+
+    async complete(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        await this.redis.evalRaw(COMPLETE, [this.pending, this.entries, this.attempts, this.queued, this.keys], ids);
+    }
+
+    async retry(id: string, delayMs: number): Promise<void> {
+        await this.redis.evalRaw(RETRY, [this.pending, this.attempts], [Date.now() + delayMs, id]);
+    }
+
+    async release(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        await this.redis.evalRaw(RELEASE, [this.pending], [Date.now(), ...ids]);
+    }
+
+    async fail(id: string): Promise<void> {
+        await this.redis.evalRaw(FAIL, [this.pending, this.failed, this.queued, this.keys], [Date.now(), id]);
+    }
+}
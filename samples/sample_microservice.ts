@@ -1,62 +1,149 @@
 // microservices/order-service/src/app.ts
 import express from 'express';
-import { BinaryCodec } from '../../shared-libs/serialization/binary-codec';
+import { Server } from 'http';
+import * as path from 'path';
+import { Pool } from 'pg';
+import { OrderEvent } from '../../shared-libs/grpc/order-service-client';
+import { contentNegotiation } from '../../shared-libs/http/content-negotiation';
+import { PrometheusRegistry } from '../../shared-libs/metrics/metrics';
+import { DocumentRepository, withTransaction } from '../../shared-libs/persistence/document-repository';
+import { PostgresOutboxStore } from '../../shared-libs/persistence/outbox-store';
+import { BinaryCodec, ProtobufCodecOptions } from '../../shared-libs/serialization/binary-codec';
+import { COMPRESSION_IDS, CompressionOptions, isCompressionAlgorithm } from '../../shared-libs/serialization/compression';
+import { FormatPolicy } from '../../shared-libs/serialization/format-policy';
+import { LocalKeyring } from '../../shared-libs/serialization/payload-protection';
 import { KafkaBinaryClient } from '../../kafka-services/src/kafka-binary-client';
+import { Outbox } from '../../kafka-services/src/outbox';
 import { BinaryRedisClient } from '../../redis-client/binary-redis';
-import { BinaryWebSocketServer } from '../../websocket-service/binary_websocket';
-
-interface OrderEvent {
-    orderId: string;
-    customerId: string;
-    items: OrderItem[];
-    totalAmount: number;
-    timestamp: string;
+import { RedisDedupeStore } from '../../redis-client/dedupe-store';
+import { BinaryWebSocketServer, WebSocketStats } from '../../websocket-service/binary_websocket';
+import { OrderGrpcServer } from './grpc-server';
+
+// Shared with the Java services so both sides produce identical Protobuf bytes
+const ORDER_PROTOBUF: ProtobufCodecOptions = {
+    protoFiles: [path.resolve(__dirname, '../../shared-libs/schemas/order_events.proto')],
+    messageType: 'orders.v1.OrderEvent'
+};
+
+function parseNodes(list?: string): Array<{ host: string; port: number }> | undefined {
+    return list?.split(',').map(node => {
+        const [host, port] = node.trim().split(':');
+        return { host, port: parseInt(port || '6379') };
+    });
 }
 
-interface OrderItem {
-    productId: string;
-    quantity: number;
-    price: number;
+// Checked here so a typo fails at startup naming the variable
+function parseCompression(algorithm?: string): CompressionOptions | undefined {
+    if (!algorithm) return undefined;
+    if (!isCompressionAlgorithm(algorithm)) {
+        throw new Error(`Unknown SERIALIZATION_COMPRESSION "${algorithm}"; expected one of ${Object.keys(COMPRESSION_IDS).join(', ')}`);
+    }
+    return { algorithm };
 }
 
 export class OrderService {
     private kafka: KafkaBinaryClient;
     private redis: BinaryRedisClient;
+    private outbox: Outbox;
+    private outboxStore: PostgresOutboxStore;
     private wsServer: BinaryWebSocketServer;
+    private grpcServer: OrderGrpcServer;
+    private orderWatchers = new Set<(order: OrderEvent) => void>();
     private codec: BinaryCodec;
+    private database: Pool;
+    private orders: DocumentRepository<OrderEvent>;
+    private formatPolicy?: FormatPolicy;
+    private keyring?: LocalKeyring;
+    readonly metrics = new PrometheusRegistry();
 
     constructor() {
         const serializationFormat = (process.env.SERIALIZATION_FORMAT as any) || 'messagepack';
         const fallbackEnabled = process.env.ENABLE_BINARY_FALLBACK === 'true';
+        const compression = parseCompression(process.env.SERIALIZATION_COMPRESSION);
+        // Rollout percentages and shadowing, re-read when the mounted ConfigMap changes
+        const formatPolicy = process.env.FORMAT_POLICY_FILE ? FormatPolicy.fromFile(process.env.FORMAT_POLICY_FILE) : undefined;
+        this.formatPolicy = formatPolicy;
+        // Reloaded like the format policy, so keys rotate by updating the mounted Secret
+        const keyring = process.env.PAYLOAD_KEYRING_FILE ? LocalKeyring.fromFile(process.env.PAYLOAD_KEYRING_FILE) : undefined;
+        this.keyring = keyring;
 
-        this.kafka = new KafkaBinaryClient({
-            clientId: 'order-service',
-            brokers: process.env.KAFKA_BROKERS?.split(',') || ['localhost:9092'],
-            serializationFormat,
-            fallbackJson: fallbackEnabled
-        });
-
+        // REDIS_CLUSTER_NODES or REDIS_SENTINELS (host:port,...) take precedence over REDIS_HOST/REDIS_PORT
         this.redis = new BinaryRedisClient({
             host: process.env.REDIS_HOST || 'localhost',
             port: parseInt(process.env.REDIS_PORT || '6379'),
+            cluster: parseNodes(process.env.REDIS_CLUSTER_NODES),
+            sentinels: parseNodes(process.env.REDIS_SENTINELS),
+            name: process.env.REDIS_SENTINEL_MASTER || 'mymaster',
             formatType: serializationFormat,
-            fallbackJson: fallbackEnabled
+            fallbackJson: fallbackEnabled,
+            compression,
+            protection: keyring && { keyring, encrypt: true },
+            protobuf: ORDER_PROTOBUF,
+            metrics: this.metrics,
+            formatPolicy
         });
 
+        this.kafka = new KafkaBinaryClient({
+            clientId: 'order-service',
+            brokers: process.env.KAFKA_BROKERS?.split(',') || ['localhost:9092'],
+            serializationFormat,
+            fallbackJson: fallbackEnabled,
+            compression,
+            // Signed, with only the customer id encrypted so analytics consumers can read the rest.
+            // Unsigned messages are rejected; PAYLOAD_REQUIRE_SIGNED=false accepts them only while
+            // the topics' other producers are still being switched to signing
+            protection: keyring && {
+                keyring,
+                sign: true,
+                requireSigned: process.env.PAYLOAD_REQUIRE_SIGNED !== 'false',
+                encryptFields: ['customerId']
+            },
+            protobuf: ORDER_PROTOBUF,
+            metrics: this.metrics,
+            formatPolicy,
+            // Stable per replica (the StatefulSet pod name), so a restarted pod fences its
+            // predecessor; with it the outbox relay publishes each batch in one transaction
+            transactionalId: process.env.KAFKA_TRANSACTIONAL_ID,
+            idempotent: true,
+            dedupe: { store: new RedisDedupeStore(this.redis) }
+        });
+
+        // No protection: browsers show customers their own orders and hold no keys
         this.wsServer = new BinaryWebSocketServer({
             formatType: serializationFormat,
             fallbackJson: fallbackEnabled,
-            maxFrameSize: parseInt(process.env.WS_MAX_FRAME_SIZE || '1048576')
+            maxFrameSize: parseInt(process.env.WS_MAX_FRAME_SIZE || '1048576'),
+            protobuf: ORDER_PROTOBUF,
+            metrics: this.metrics,
+            path: '/ws',
+            formatPolicy
         });
 
         this.codec = new BinaryCodec({
             formatType: serializationFormat,
-            fallbackJson: fallbackEnabled
+            fallbackJson: fallbackEnabled,
+            protobuf: ORDER_PROTOBUF,
+            protection: keyring && { keyring, encryptFields: ['customerId'] },
+            metrics: this.metrics
         });
+
+        // DATABASE_URL, or the standard PG* variables when it isn't set
+        this.database = new Pool({ connectionString: process.env.DATABASE_URL });
+        this.orders = new DocumentRepository<OrderEvent>({
+            pool: this.database,
+            table: 'order_documents',
+            codec: this.codec
+        });
+        this.outboxStore = new PostgresOutboxStore(this.database, 'order_outbox');
+        this.outbox = new Outbox(this.kafka, this.outboxStore);
+
+        this.grpcServer = new OrderGrpcServer(this, { port: parseInt(process.env.GRPC_PORT || '50051') });
     }
 
     async initialize(): Promise<void> {
         await this.kafka.connect();
+        this.outbox.start();
+        await this.grpcServer.start();
         
         // Subscribe to order events
         await this.kafka.subscribe<OrderEvent>(['order-created', 'order-updated'], 
@@ -66,18 +153,16 @@ export class OrderService {
 
     async createOrder(orderData: Omit<OrderEvent, 'orderId' | 'timestamp'>): Promise<string> {
         const orderId = `order-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        // Generated fields last: a Protobuf body decodes with empty defaults for them
         const orderEvent: OrderEvent = {
-            orderId,
             ...orderData,
+            orderId,
             timestamp: new Date().toISOString()
         };
 
         try {
-            // Store in Redis cache
-            await this.redis.set(`order:${orderId}`, orderEvent, { EX: 3600 }); // 1 hour TTL
-
-            // Publish to Kafka
-            await this.kafka.sendMessage('order-created', {
+            // Encoded before the transaction opens, so a registry lookup doesn't hold it
+            const events = await this.outbox.prepare('order-created', [{
                 key: orderId,
                 value: orderEvent,
                 headers: {
@@ -85,7 +170,19 @@ export class OrderService {
                     'service': 'order-service',
                     'version': '1.0'
                 }
+            }]);
+
+            // The order of record (cache misses are read back from here) commits together with
+            // its event, which is then published even if Kafka is down right now: no order is
+            // stored or cached without being published
+            await withTransaction(this.database, async client => {
+                await this.orders.upsert(orderId, orderEvent, client);
+                await this.outboxStore.add(events, client);
             });
+            this.outbox.flush();
+
+            // Store in Redis cache
+            await this.redis.set(`order:${orderId}`, orderEvent, { EX: 3600 }); // 1 hour TTL
 
             return orderId;
         } catch (error) {
@@ -96,19 +193,12 @@ export class OrderService {
 
     async getOrder(orderId: string): Promise<OrderEvent | null> {
         try {
-            // Try Redis cache first
-            let order = await this.redis.get(`order:${orderId}`);
-            
-            if (!order) {
-                // Fallback to database query
-                order = await this.queryOrderFromDatabase(orderId);
-                if (order) {
-                    // Cache for future requests
-                    await this.redis.set(`order:${orderId}`, order, { EX: 3600 });
-                }
-            }
-
-            return order as OrderEvent | null;
+            // Unknown ids are cached briefly too, so lookups for them don't all reach the database
+            return await this.redis.getOrLoad<OrderEvent>(
+                `order:${orderId}`,
+                () => this.queryOrderFromDatabase(orderId),
+                { ttlSeconds: 3600, staleWhileRevalidateSeconds: 60, negativeTtlSeconds: 30 }
+            );
         } catch (error) {
             console.error('Failed to retrieve order:', error);
             throw new Error('Order retrieval failed');
@@ -122,8 +212,9 @@ export class OrderService {
             // Update cache
             await this.redis.set(`order:${orderEvent.orderId}`, orderEvent, { EX: 3600 });
             
-            // Notify WebSocket clients
-            this.notifyWebSocketClients(orderEvent);
+            // Notify WebSocket clients and gRPC WatchOrders callers
+            await this.notifyWebSocketClients(orderEvent);
+            this.orderWatchers.forEach(watcher => watcher(orderEvent));
             
             // Process business logic based on event type
             if (topic === 'order-created') {
@@ -133,7 +224,8 @@ export class OrderService {
             }
         } catch (error) {
             console.error(`Failed to handle ${topic} event:`, error);
-            // Implement dead letter queue or retry logic
+            // KafkaBinaryClient retries with backoff, then dead-letters the raw message
+            throw error;
         }
     }
 
@@ -147,19 +239,37 @@ export class OrderService {
         console.log(`Processing order update: ${order.orderId}`);
     }
 
-    private notifyWebSocketClients(orderEvent: OrderEvent): void {
-        // WebSocket notification logic
-        console.log(`Notifying WebSocket clients about order ${orderEvent.orderId}`);
+    private async notifyWebSocketClients(orderEvent: OrderEvent): Promise<void> {
+        const delivered = await this.wsServer.broadcast(`order:${orderEvent.orderId}`, orderEvent)
+            + await this.wsServer.broadcast(`customer:${orderEvent.customerId}`, orderEvent);
+        console.log(`Notified ${delivered} WebSocket clients about order ${orderEvent.orderId}`);
     }
 
     private async queryOrderFromDatabase(orderId: string): Promise<OrderEvent | null> {
-        // Database query implementation
-        console.log(`Querying database for order ${orderId}`);
-        return null; // Placeholder
+        return await this.orders.get(orderId);
+    }
+
+    watchOrders(listener: (order: OrderEvent) => void): () => void {
+        this.orderWatchers.add(listener);
+        return () => this.orderWatchers.delete(listener);
+    }
+
+    attachWebSocket(server: Server): void {
+        this.wsServer.attach(server);
+    }
+
+    websocketStats(): WebSocketStats {
+        return this.wsServer.stats();
     }
 
     async shutdown(): Promise<void> {
+        this.formatPolicy?.close();
+        this.keyring?.close();
+        await this.grpcServer.stop();
+        await this.outbox.stop();
+        await this.wsServer.close();
         await this.kafka.disconnect();
+        await this.database.end();
         console.log('Order service shutdown complete');
     }
 }
@@ -168,16 +278,26 @@ export class OrderService {
 const app = express();
 const orderService = new OrderService();
 
-app.use(express.json());
+// JSON stays the default for external callers; internal services send and
+// accept application/msgpack or application/x-protobuf
+app.use(contentNegotiation({ protobuf: ORDER_PROTOBUF, metrics: orderService.metrics }));
 
 app.get('/health', (req, res) => {
-    res.json({ status: 'healthy', serialization: process.env.SERIALIZATION_FORMAT });
+    res.json({
+        status: 'healthy',
+        serialization: process.env.SERIALIZATION_FORMAT,
+        websocket: orderService.websocketStats()
+    });
+});
+
+app.get('/metrics', (req, res) => {
+    res.type(orderService.metrics.contentType).send(orderService.metrics.expose());
 });
 
 app.post('/orders', async (req, res) => {
     try {
         const orderId = await orderService.createOrder(req.body);
-        res.status(201).json({ orderId });
+        await res.sendEncoded({ orderId }, { status: 201, messageType: 'orders.v1.CreateOrderResponse' });
     } catch (error) {
         res.status(500).json({ error: 'Failed to create order' });
     }
@@ -187,7 +307,7 @@ app.get('/orders/:orderId', async (req, res) => {
     try {
         const order = await orderService.getOrder(req.params.orderId);
         if (order) {
-            res.json(order);
+            await res.sendEncoded(order);
         } else {
             res.status(404).json({ error: 'Order not found' });
         }
@@ -206,10 +326,11 @@ process.on('SIGTERM', async () => {
 // Initialize and start server
 orderService.initialize().then(() => {
     const port = process.env.PORT || 3000;
-    app.listen(port, () => {
+    const server = app.listen(port, () => {
         console.log(`Order service listening on port ${port}`);
         console.log(`Using serialization format: ${process.env.SERIALIZATION_FORMAT || 'messagepack'}`);
     });
+    orderService.attachWebSocket(server);
 }).catch(error => {
     console.error('Failed to initialize order service:', error);
     process.exit(1);
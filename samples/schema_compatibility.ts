@@ -0,0 +1,171 @@
+// shared-libs/schema-registry/compatibility.ts
+import * as protobuf from 'protobufjs';
+import { CompatibilityLevel, SchemaDefinition } from './schema-registry';
+
+export interface JsonSchema {
+    type?: string | string[];
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: unknown[];
+    additionalProperties?: boolean;
+    default?: unknown;
+}
+
+// Varint, zigzag, fixed and length-delimited encodings only decode into their own group
+const WIRE_GROUPS: string[][] = [
+    ['int32', 'uint32', 'int64', 'uint64', 'bool', 'enum'],
+    ['sint32', 'sint64'],
+    ['fixed32', 'sfixed32'],
+    ['fixed64', 'sfixed64'],
+    ['string', 'bytes']
+];
+
+// Returns human-readable violations; an empty list means the candidate may be registered
+export function checkCompatibility(
+    level: CompatibilityLevel,
+    candidate: SchemaDefinition,
+    existing: SchemaDefinition[]
+): string[] {
+    if (level === 'NONE' || existing.length === 0) {
+        return [];
+    }
+
+    const previous = level.endsWith('_TRANSITIVE') ? existing : existing.slice(-1);
+    const backward = level.startsWith('BACKWARD') || level.startsWith('FULL');
+    const forward = level.startsWith('FORWARD') || level.startsWith('FULL');
+    const violations: string[] = [];
+
+    for (const old of previous) {
+        if (old.schemaType !== candidate.schemaType) {
+            violations.push(`schema type changed from ${old.schemaType} to ${candidate.schemaType}`);
+            continue;
+        }
+        // BACKWARD: the new schema reads old data. FORWARD: the old schema reads new data.
+        if (backward) {
+            violations.push(...compare(candidate, old).map(v => `BACKWARD ${v}`));
+        }
+        if (forward) {
+            violations.push(...compare(old, candidate).map(v => `FORWARD ${v}`));
+        }
+    }
+
+    return violations;
+}
+
+function compare(reader: SchemaDefinition, writer: SchemaDefinition): string[] {
+    if (reader.schemaType === 'PROTOBUF') {
+        return compareProtobuf(parseProto(reader.schema), parseProto(writer.schema));
+    }
+    return compareJsonSchema(JSON.parse(reader.schema), JSON.parse(writer.schema), '$');
+}
+
+function compareJsonSchema(reader: JsonSchema, writer: JsonSchema, path: string): string[] {
+    const violations: string[] = [];
+
+    const readerTypes = typesOf(reader);
+    const writerTypes = typesOf(writer);
+    if (readerTypes && writerTypes) {
+        const unreadable = writerTypes.filter(t =>
+            !readerTypes.includes(t) && !(t === 'integer' && readerTypes.includes('number')));
+        if (unreadable.length > 0) {
+            violations.push(`${path}: ${readerTypes.join('|')} cannot read ${unreadable.join('|')}`);
+        }
+    }
+
+    if (reader.enum) {
+        const unknown = writer.enum ? writer.enum.filter(v => !reader.enum!.includes(v)) : ['<unrestricted>'];
+        if (unknown.length > 0) {
+            violations.push(`${path}: enum does not accept ${unknown.map(v => JSON.stringify(v)).join(', ')}`);
+        }
+    }
+
+    const readerProps = reader.properties || {};
+    const writerProps = writer.properties || {};
+    const writerRequired = new Set(writer.required || []);
+
+    for (const name of reader.required || []) {
+        if (!writerRequired.has(name) && readerProps[name]?.default === undefined) {
+            violations.push(`${path}.${name}: required without a default but not always written`);
+        }
+    }
+
+    for (const [name, writerProp] of Object.entries(writerProps)) {
+        if (readerProps[name]) {
+            violations.push(...compareJsonSchema(readerProps[name], writerProp, `${path}.${name}`));
+        } else if (reader.additionalProperties === false) {
+            violations.push(`${path}.${name}: written but rejected by additionalProperties: false`);
+        }
+    }
+
+    if (reader.items && writer.items) {
+        violations.push(...compareJsonSchema(reader.items, writer.items, `${path}[]`));
+    }
+
+    return violations;
+}
+
+function typesOf(schema: JsonSchema): string[] | undefined {
+    if (schema.type === undefined) return undefined;
+    return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function compareProtobuf(reader: protobuf.Root, writer: protobuf.Root): string[] {
+    const violations: string[] = [];
+
+    for (const writerType of messageTypes(writer)) {
+        const readerType = reader.lookup(writerType.fullName);
+        // Messages the reader doesn't know about are skipped as unknown fields
+        if (!(readerType instanceof protobuf.Type)) continue;
+
+        for (const readerField of readerType.fieldsArray) {
+            const writerField = writerType.fieldsById[readerField.id];
+            const path = `${readerType.fullName.replace(/^\./, '')}.${readerField.name} (#${readerField.id})`;
+
+            if (!writerField) {
+                if (readerField.required) {
+                    violations.push(`${path}: required but never written`);
+                }
+                continue;
+            }
+
+            if (readerField.repeated !== writerField.repeated || readerField.map !== writerField.map) {
+                violations.push(`${path}: cardinality changed`);
+            } else if (!wireCompatible(wireKind(readerField), wireKind(writerField))) {
+                violations.push(`${path}: ${writerField.type} is not wire-compatible with ${readerField.type}`);
+            }
+        }
+    }
+
+    return violations;
+}
+
+function parseProto(source: string): protobuf.Root {
+    const { root } = protobuf.parse(source);
+    root.resolveAll();
+    return root;
+}
+
+function messageTypes(namespace: protobuf.NamespaceBase): protobuf.Type[] {
+    const types: protobuf.Type[] = [];
+    for (const nested of namespace.nestedArray) {
+        if (nested instanceof protobuf.Type) {
+            types.push(nested);
+        }
+        if (nested instanceof protobuf.Namespace) {
+            types.push(...messageTypes(nested));
+        }
+    }
+    return types;
+}
+
+function wireKind(field: protobuf.Field): string {
+    if (field.resolvedType instanceof protobuf.Enum) return 'enum';
+    if (field.resolvedType instanceof protobuf.Type) return 'message';
+    return field.type;
+}
+
+function wireCompatible(readerKind: string, writerKind: string): boolean {
+    if (readerKind === writerKind) return true;
+    return WIRE_GROUPS.some(group => group.includes(readerKind) && group.includes(writerKind));
+}
\ No newline at end of file
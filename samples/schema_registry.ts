@@ -0,0 +1,203 @@
+// shared-libs/schema-registry/schema-registry.ts
+import { promises as fs } from 'fs';
+import { checkCompatibility } from './compatibility';
+
+// MessagePack and JSON payloads are described with JSON Schema
+export type SchemaType = 'JSON' | 'PROTOBUF';
+
+export type CompatibilityLevel =
+    | 'NONE'
+    | 'BACKWARD' | 'BACKWARD_TRANSITIVE'
+    | 'FORWARD' | 'FORWARD_TRANSITIVE'
+    | 'FULL' | 'FULL_TRANSITIVE';
+
+export interface SchemaDefinition {
+    schemaType: SchemaType;
+    schema: string; // JSON Schema document or .proto source
+}
+
+export interface RegisteredSchema extends SchemaDefinition {
+    id: number;
+    subject: string;
+    version: number;
+}
+
+// Implemented by the local registry and the Confluent HTTP client
+export interface SchemaRegistryClient {
+    register(subject: string, definition: SchemaDefinition): Promise<RegisteredSchema>;
+    getById(id: number): Promise<RegisteredSchema>;
+    getLatest(subject: string): Promise<RegisteredSchema>;
+    getVersion(subject: string, version: number): Promise<RegisteredSchema>;
+    testCompatibility(subject: string, definition: SchemaDefinition): Promise<string[]>;
+    setCompatibility(subject: string, level: CompatibilityLevel): Promise<void>;
+}
+
+export class SchemaCompatibilityError extends Error {
+    constructor(public readonly subject: string, public readonly violations: string[]) {
+        super(`Schema for subject ${subject} is incompatible: ${violations.join('; ')}`);
+        this.name = 'SchemaCompatibilityError';
+    }
+}
+
+export class SchemaNotFoundError extends Error {
+    constructor(what: string) {
+        super(`Schema not found: ${what}`);
+        this.name = 'SchemaNotFoundError';
+    }
+}
+
+// The registry also holds Avro schemas, which this library can't encode or validate with
+export class UnsupportedSchemaTypeError extends Error {
+    constructor(public readonly schemaType: string, what: string) {
+        super(`${what} has schema type ${schemaType}; only JSON and PROTOBUF are supported`);
+        this.name = 'UnsupportedSchemaTypeError';
+    }
+}
+
+export interface SchemaStoreState {
+    schemas: RegisteredSchema[];
+    compatibility: Record<string, CompatibilityLevel>;
+}
+
+export interface SchemaStore {
+    load(): Promise<SchemaStoreState>;
+    save(state: SchemaStoreState): Promise<void>;
+}
+
+export class InMemorySchemaStore implements SchemaStore {
+    private state: SchemaStoreState = { schemas: [], compatibility: {} };
+
+    async load(): Promise<SchemaStoreState> {
+        return this.state;
+    }
+
+    async save(state: SchemaStoreState): Promise<void> {
+        this.state = state;
+    }
+}
+
+export class FileSchemaStore implements SchemaStore {
+    constructor(private readonly filePath: string) {}
+
+    async load(): Promise<SchemaStoreState> {
+        try {
+            return JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as SchemaStoreState;
+        } catch (error: any) {
+            if (error.code === 'ENOENT') {
+                return { schemas: [], compatibility: {} };
+            }
+            throw error;
+        }
+    }
+
+    async save(state: SchemaStoreState): Promise<void> {
+        // Write-then-rename so a crash never leaves a truncated registry file
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(state, null, 2));
+        await fs.rename(tmpPath, this.filePath);
+    }
+}
+
+export interface SchemaRegistryOptions {
+    defaultCompatibility?: CompatibilityLevel;
+}
+
+export class SchemaRegistry implements SchemaRegistryClient {
+    private defaultCompatibility: CompatibilityLevel;
+    private writeQueue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly store: SchemaStore = new InMemorySchemaStore(), options: SchemaRegistryOptions = {}) {
+        this.defaultCompatibility = options.defaultCompatibility || 'BACKWARD';
+    }
+
+    async register(subject: string, definition: SchemaDefinition): Promise<RegisteredSchema> {
+        return this.serialize(async () => {
+            const state = await this.store.load();
+            const normalized = normalize(definition);
+            const versions = state.schemas.filter(s => s.subject === subject);
+
+            const existing = versions.find(s => sameDefinition(s, normalized));
+            if (existing) {
+                return existing;
+            }
+
+            const violations = checkCompatibility(this.compatibilityOf(state, subject), normalized, versions);
+            if (violations.length > 0) {
+                throw new SchemaCompatibilityError(subject, violations);
+            }
+
+            // Identical schemas share an id across subjects, as in Confluent
+            const sharedId = state.schemas.find(s => sameDefinition(s, normalized))?.id;
+            const registered: RegisteredSchema = {
+                ...normalized,
+                id: sharedId || state.schemas.reduce((max, s) => Math.max(max, s.id), 0) + 1,
+                subject,
+                version: versions.length > 0 ? versions[versions.length - 1].version + 1 : 1
+            };
+
+            await this.store.save({ ...state, schemas: [...state.schemas, registered] });
+            return registered;
+        });
+    }
+
+    async getById(id: number): Promise<RegisteredSchema> {
+        const { schemas } = await this.store.load();
+        const schema = schemas.find(s => s.id === id);
+        if (!schema) {
+            throw new SchemaNotFoundError(`id ${id}`);
+        }
+        return schema;
+    }
+
+    async getLatest(subject: string): Promise<RegisteredSchema> {
+        const versions = (await this.store.load()).schemas.filter(s => s.subject === subject);
+        if (versions.length === 0) {
+            throw new SchemaNotFoundError(`subject ${subject}`);
+        }
+        return versions[versions.length - 1];
+    }
+
+    async getVersion(subject: string, version: number): Promise<RegisteredSchema> {
+        const { schemas } = await this.store.load();
+        const schema = schemas.find(s => s.subject === subject && s.version === version);
+        if (!schema) {
+            throw new SchemaNotFoundError(`subject ${subject} version ${version}`);
+        }
+        return schema;
+    }
+
+    async testCompatibility(subject: string, definition: SchemaDefinition): Promise<string[]> {
+        const state = await this.store.load();
+        const versions = state.schemas.filter(s => s.subject === subject);
+        return checkCompatibility(this.compatibilityOf(state, subject), normalize(definition), versions);
+    }
+
+    async setCompatibility(subject: string, level: CompatibilityLevel): Promise<void> {
+        await this.serialize(async () => {
+            const state = await this.store.load();
+            await this.store.save({ ...state, compatibility: { ...state.compatibility, [subject]: level } });
+        });
+    }
+
+    private compatibilityOf(state: SchemaStoreState, subject: string): CompatibilityLevel {
+        return state.compatibility[subject] || this.defaultCompatibility;
+    }
+
+    // Load-modify-save cycles must not interleave
+    private serialize<R>(operation: () => Promise<R>): Promise<R> {
+        const result = this.writeQueue.then(operation);
+        this.writeQueue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+function normalize(definition: SchemaDefinition): SchemaDefinition {
+    if (definition.schemaType === 'JSON') {
+        return { schemaType: 'JSON', schema: JSON.stringify(JSON.parse(definition.schema)) };
+    }
+    return { schemaType: definition.schemaType, schema: definition.schema.trim() };
+}
+
+function sameDefinition(a: SchemaDefinition, b: SchemaDefinition): boolean {
+    return a.schemaType === b.schemaType && a.schema === b.schema;
+}
\ No newline at end of file
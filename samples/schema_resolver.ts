@@ -0,0 +1,100 @@
+// shared-libs/serialization/schema-resolver.ts
+import * as protobuf from 'protobufjs';
+import { JsonSchema } from '../schema-registry/compatibility';
+import { RegisteredSchema, SchemaRegistryClient } from '../schema-registry/schema-registry';
+
+// Caches registry lookups for BinaryCodec. Schemas are immutable per id,
+// so only the "latest version of a subject" lookup ever expires.
+export class SchemaResolver {
+    private byId = new Map<number, Promise<RegisteredSchema>>();
+    private latest = new Map<string, { schema: Promise<RegisteredSchema>; expiresAt: number }>();
+    private protobufTypes = new Map<string, protobuf.Type>();
+    private jsonSchemas = new Map<number, JsonSchema>();
+
+    constructor(private readonly client: SchemaRegistryClient, private readonly latestTtlMs = 60000) {}
+
+    getById(id: number): Promise<RegisteredSchema> {
+        let schema = this.byId.get(id);
+        if (!schema) {
+            schema = this.client.getById(id);
+            schema.catch(() => this.byId.delete(id));
+            this.byId.set(id, schema);
+        }
+        return schema;
+    }
+
+    getLatest(subject: string): Promise<RegisteredSchema> {
+        const cached = this.latest.get(subject);
+        if (cached && cached.expiresAt > Date.now()) {
+            return cached.schema;
+        }
+
+        const schema = this.client.getLatest(subject);
+        schema.catch(() => this.latest.delete(subject));
+        this.latest.set(subject, { schema, expiresAt: Date.now() + this.latestTtlMs });
+        return schema;
+    }
+
+    // Registered .proto sources may define several messages; prefer the codec's configured type
+    protobufType(schema: RegisteredSchema, preferredType?: string): protobuf.Type {
+        const cacheKey = `${schema.id}:${preferredType || ''}`;
+        let type = this.protobufTypes.get(cacheKey);
+        if (!type) {
+            const { root } = protobuf.parse(schema.schema);
+            root.resolveAll();
+            type = (preferredType && lookupMessage(root, preferredType)) || firstMessage(root);
+            if (!type) {
+                throw new Error(`Schema ${schema.id} (${schema.subject}) defines no message types`);
+            }
+            this.protobufTypes.set(cacheKey, type);
+        }
+        return type;
+    }
+
+    jsonSchema(schema: RegisteredSchema): JsonSchema {
+        let parsed = this.jsonSchemas.get(schema.id);
+        if (!parsed) {
+            parsed = JSON.parse(schema.schema) as JsonSchema;
+            this.jsonSchemas.set(schema.id, parsed);
+        }
+        return parsed;
+    }
+
+    // Reader-side resolution for JSON Schema payloads: fields added since the
+    // writer's version take the reader's declared defaults.
+    applyReaderDefaults<T>(value: T, reader: RegisteredSchema): T {
+        return fillDefaults(value, this.jsonSchema(reader));
+    }
+}
+
+function lookupMessage(root: protobuf.Root, name: string): protobuf.Type | undefined {
+    const found = root.lookup(name);
+    return found instanceof protobuf.Type ? found : undefined;
+}
+
+function firstMessage(namespace: protobuf.NamespaceBase): protobuf.Type | undefined {
+    for (const nested of namespace.nestedArray) {
+        if (nested instanceof protobuf.Type) return nested;
+        if (nested instanceof protobuf.Namespace) {
+            const found = firstMessage(nested);
+            if (found) return found;
+        }
+    }
+    return undefined;
+}
+
+function fillDefaults(value: any, schema: JsonSchema): any {
+    if (Array.isArray(value)) {
+        return schema.items ? value.map(item => fillDefaults(item, schema.items!)) : value;
+    }
+    if (value && typeof value === 'object' && schema.properties) {
+        for (const [name, property] of Object.entries(schema.properties)) {
+            if (value[name] === undefined && property.default !== undefined) {
+                value[name] = JSON.parse(JSON.stringify(property.default));
+            } else if (value[name] !== undefined) {
+                value[name] = fillDefaults(value[name], property);
+            }
+        }
+    }
+    return value;
+}
\ No newline at end of file
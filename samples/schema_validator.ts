@@ -0,0 +1,150 @@
+// shared-libs/serialization/schema-validator.ts
+import * as protobuf from 'protobufjs';
+import { JsonSchema } from '../schema-registry/compatibility';
+
+export type ValidationDirection = 'encode' | 'decode';
+
+// What a transport does with a payload that fails validation
+export type ValidationPolicy = 'reject' | 'log' | 'quarantine';
+
+export interface ValidationIssue {
+    path: string;     // e.g. $.items[0].price
+    expected: string;
+    actual: string;
+}
+
+export class CodecValidationError extends Error {
+    constructor(
+        public readonly direction: ValidationDirection,
+        public readonly issues: ValidationIssue[],
+        public readonly value: unknown, // The offending value, so `log` policies can still deliver it
+        public readonly schemaId?: number
+    ) {
+        super(`${direction} validation failed: ${issues.map(i => `${i.path} expected ${i.expected}, got ${i.actual}`).join('; ')}`);
+        this.name = 'CodecValidationError';
+    }
+}
+
+const PROTOBUF_SCALARS: Record<string, string> = {
+    double: 'number', float: 'number',
+    int32: 'integer', uint32: 'integer', sint32: 'integer', fixed32: 'integer', sfixed32: 'integer',
+    int64: 'int64', uint64: 'int64', sint64: 'int64', fixed64: 'int64', sfixed64: 'int64',
+    bool: 'boolean', string: 'string', bytes: 'bytes'
+};
+
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): ValidationIssue[] {
+    const issues: ValidationIssue[] = [];
+
+    if (schema.type !== undefined) {
+        const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(type => matchesType(type, value))) {
+            return [{ path, expected: types.join('|'), actual: describe(value) }];
+        }
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        issues.push({ path, expected: `one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`, actual: JSON.stringify(value) });
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.items) {
+            value.forEach((item, index) => issues.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+        }
+    } else if (isObject(value)) {
+        const properties = schema.properties || {};
+        for (const name of schema.required || []) {
+            if (value[name] === undefined) {
+                const expected = properties[name]?.type;
+                issues.push({ path: `${path}.${name}`, expected: expected ? [expected].flat().join('|') : 'a value', actual: 'missing' });
+            }
+        }
+        for (const [name, item] of Object.entries(value)) {
+            if (properties[name]) {
+                if (item !== undefined) {
+                    issues.push(...validateJsonSchema(item, properties[name], `${path}.${name}`));
+                }
+            } else if (schema.additionalProperties === false) {
+                issues.push({ path: `${path}.${name}`, expected: 'no such property', actual: describe(item) });
+            }
+        }
+    }
+
+    return issues;
+}
+
+// Checks a plain object against a message type before fromObject() silently coerces it
+export function validateProtobuf(value: unknown, type: protobuf.Type, path = '$'): ValidationIssue[] {
+    if (!isObject(value)) {
+        return [{ path, expected: type.name, actual: describe(value) }];
+    }
+
+    const issues: ValidationIssue[] = [];
+    for (const [name, item] of Object.entries(value)) {
+        const field = type.fields[name];
+        const fieldPath = `${path}.${name}`;
+
+        if (!field) {
+            issues.push({ path: fieldPath, expected: `no such field in ${type.name}`, actual: describe(item) });
+        } else if (item != null) {
+            if (field.map) {
+                if (!isObject(item)) {
+                    issues.push({ path: fieldPath, expected: 'map', actual: describe(item) });
+                } else {
+                    Object.entries(item).forEach(([key, entry]) => issues.push(...validateField(entry, field, `${fieldPath}.${key}`)));
+                }
+            } else if (field.repeated) {
+                if (!Array.isArray(item)) {
+                    issues.push({ path: fieldPath, expected: 'array', actual: describe(item) });
+                } else {
+                    item.forEach((entry, index) => issues.push(...validateField(entry, field, `${fieldPath}[${index}]`)));
+                }
+            } else {
+                issues.push(...validateField(item, field, fieldPath));
+            }
+        }
+    }
+    return issues;
+}
+
+function validateField(value: unknown, field: protobuf.Field, path: string): ValidationIssue[] {
+    const resolved = field.resolvedType;
+
+    if (resolved instanceof protobuf.Type) {
+        return validateProtobuf(value, resolved, path);
+    }
+    if (resolved instanceof protobuf.Enum) {
+        const known = typeof value === 'string' ? value in resolved.values : Number.isInteger(value);
+        return known ? [] : [{ path, expected: `${resolved.name} value`, actual: describe(value) }];
+    }
+
+    const expected = PROTOBUF_SCALARS[field.type];
+    return expected && !matchesType(expected, value) ? [{ path, expected, actual: describe(value) }] : [];
+}
+
+function matchesType(type: string, value: unknown): boolean {
+    switch (type) {
+        case 'null': return value === null;
+        case 'array': return Array.isArray(value);
+        case 'object': return isObject(value);
+        case 'integer': return Number.isInteger(value);
+        case 'number': return typeof value === 'number';
+        // int64 travels as a decimal string, a bigint or a Long when it doesn't fit a double
+        case 'int64': return Number.isInteger(value) || typeof value === 'bigint'
+            || (typeof value === 'string' && /^-?\d+$/.test(value)) || (isObject(value) && 'low' in value);
+        case 'bytes': return value instanceof Uint8Array || typeof value === 'string';
+        default: return typeof value === type;
+    }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Uint8Array);
+}
+
+function describe(value: unknown): string {
+    if (value === undefined) return 'missing';
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (value instanceof Uint8Array) return 'bytes';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
\ No newline at end of file
@@ -0,0 +1,85 @@
+// shared-libs/metrics/serialization-instruments.ts
+import { Counter, Histogram, MetricsSink } from './metrics';
+
+// Supplied per call by transports so series can be told apart
+export interface MetricLabels {
+    component?: string; // e.g. kafka-producer, redis, websocket
+    target?: string;    // Topic, Redis key prefix or WebSocket channel
+}
+
+export interface EncodeObservation {
+    format: string;
+    durationMs: number;
+    originalSize?: number; // Skipped by callers that don't pay for a JSON.stringify
+    encodedSize: number;
+    wireSize: number;
+}
+
+const LATENCY_BUCKETS_SECONDS = [0.0001, 0.00025, 0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.5, 1];
+const SIZE_BUCKETS_BYTES = [64, 256, 1024, 4096, 16384, 65536, 262144, 1048576, 4194304, 16777216];
+
+export class SerializationInstruments {
+    private encodeDuration: Histogram;
+    private decodeDuration: Histogram;
+    private payloadBytes: Histogram;
+    private fallbacks: Counter;
+    private decodeFailures: Counter;
+    private shadowComparisons: Counter;
+
+    constructor(sink: MetricsSink) {
+        this.encodeDuration = sink.histogram(
+            'serialization_encode_duration_seconds', 'Time spent encoding a value', LATENCY_BUCKETS_SECONDS);
+        this.decodeDuration = sink.histogram(
+            'serialization_decode_duration_seconds', 'Time spent decoding a payload', LATENCY_BUCKETS_SECONDS);
+        this.payloadBytes = sink.histogram(
+            'serialization_payload_bytes',
+            'Payload size by stage: original (as JSON), encoded, wire (after envelope and compression), received',
+            SIZE_BUCKETS_BYTES);
+        this.fallbacks = sink.counter(
+            'serialization_json_fallback_total', 'Values that fell back to JSON because the configured format failed');
+        this.decodeFailures = sink.counter(
+            'serialization_decode_failures_total', 'Payloads that could not be decoded');
+        this.shadowComparisons = sink.counter(
+            'serialization_shadow_comparisons_total',
+            'Shadow-mode round trips by outcome: match, mismatch, or error when the shadow format failed');
+    }
+
+    encoded(labels: MetricLabels, observation: EncodeObservation): void {
+        const base = seriesLabels(labels, observation.format);
+        this.encodeDuration.observe(base, observation.durationMs / 1000);
+        if (observation.originalSize !== undefined) {
+            this.payloadBytes.observe({ ...base, stage: 'original' }, observation.originalSize);
+        }
+        this.payloadBytes.observe({ ...base, stage: 'encoded' }, observation.encodedSize);
+        this.payloadBytes.observe({ ...base, stage: 'wire' }, observation.wireSize);
+    }
+
+    decoded(labels: MetricLabels, format: string, durationMs: number, size: number): void {
+        const base = seriesLabels(labels, format);
+        this.decodeDuration.observe(base, durationMs / 1000);
+        this.payloadBytes.observe({ ...base, stage: 'received' }, size);
+    }
+
+    // `format` is the format that failed, not JSON
+    fellBack(labels: MetricLabels, format: string, direction: 'encode' | 'decode'): void {
+        this.fallbacks.inc({ ...seriesLabels(labels, format), direction });
+    }
+
+    decodeFailed(labels: MetricLabels, format: string, error: unknown): void {
+        const reason = error instanceof Error ? error.name : 'unknown';
+        this.decodeFailures.inc({ ...seriesLabels(labels, format), reason });
+    }
+
+    // `format` is what was sent, `shadowFormat` the candidate it was checked against
+    shadowCompared(labels: MetricLabels, format: string, shadowFormat: string, outcome: 'match' | 'mismatch' | 'error'): void {
+        this.shadowComparisons.inc({ ...seriesLabels(labels, format), shadow_format: shadowFormat, outcome });
+    }
+}
+
+function seriesLabels(labels: MetricLabels, format: string): Record<string, string> {
+    return {
+        component: labels.component || 'unknown',
+        format,
+        target: labels.target || ''
+    };
+}
\ No newline at end of file
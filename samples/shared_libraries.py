@@ -1,8 +1,109 @@
 # shared-libs/serialization/binary_codec.py
+
+# The wire envelope written by the TypeScript codec (wire-envelope.ts):
+# magic(1) version(1) format(1) flags(1) schemaId(4) schemaVersion(2)
+ENVELOPE_MAGIC = 0xC1
+ENVELOPE_VERSION = 1
+ENVELOPE_HEADER_SIZE = 10
+FORMATS_BY_ID = {1: 'json', 2: 'messagepack', 3: 'protobuf'}
+# Low three flag bits hold the compression algorithm id (compression.ts)
+FLAG_COMPRESSION_MASK = 0x07
+# Set on payloads sealed by payload-protection.ts
+FLAG_ENCRYPTED = 0x08
+FLAG_SIGNED = 0x10
+
+
+def read_envelope(binary_data):
+    """Returns (format, flags, payload), or None for a headerless (legacy) payload"""
+    if len(binary_data) < ENVELOPE_HEADER_SIZE or binary_data[0] != ENVELOPE_MAGIC:
+        return None
+    format_type = FORMATS_BY_ID.get(binary_data[2])
+    if binary_data[1] != ENVELOPE_VERSION or format_type is None:
+        return None
+    return format_type, binary_data[3], binary_data[ENVELOPE_HEADER_SIZE:]
+
+
+def load_keyring(path):
+    """The aes-256-gcm secrets of a payload-protection.ts keyring file, by key id"""
+    import base64
+    with open(path) as f:
+        config = json.load(f)
+    return {key['id']: base64.b64decode(key['secret'])
+            for key in config.get('keys', []) if key.get('algorithm') == 'aes-256-gcm'}
+
+
+def open_sealed(binary_data, flags, payload, keyring):
+    """Signatures are skipped unchecked, as readUnverified() in payload-protection.ts does;
+    decrypting needs the payload's key in `keyring`"""
+    if flags & FLAG_SIGNED:
+        _, rest = _read_key_id(payload)
+        payload = rest[2 + int.from_bytes(rest[:2], 'big'):]
+    if flags & FLAG_ENCRYPTED:
+        key_id, rest = _read_key_id(payload)
+        secret = (keyring or {}).get(key_id)
+        if secret is None:
+            raise ValueError('Payload is encrypted with key %s, which the keyring does not hold' % key_id)
+        from cryptography.hazmat.primitives.ciphers.aead import AESGCM
+        # iv(12) tag(16) ciphertext, with the envelope header as associated data
+        iv, tag, ciphertext = rest[:12], rest[12:28], rest[28:]
+        payload = AESGCM(secret).decrypt(iv, ciphertext + tag, binary_data[:ENVELOPE_HEADER_SIZE])
+    return payload
+
+
+def _read_key_id(block):
+    if len(block) < 1 or len(block) < 1 + block[0]:
+        raise ValueError('Truncated key id')
+    return block[1:1 + block[0]].decode('utf-8'), block[1 + block[0]:]
+
+
+def decompress(algorithm_id, payload, max_size):
+    """Only gzip ships with Python; the other algorithms need their package installed"""
+    if algorithm_id == 1:
+        import zlib
+        inflater = zlib.decompressobj(wbits=31)
+        output = inflater.decompress(payload, max_size + 1)
+    elif algorithm_id == 2:
+        import brotli  # No output limit, so the size is only checked afterwards
+        output = brotli.decompress(payload)
+    elif algorithm_id == 3:
+        import lz4.block  # lz4-napi prepends the size as a little-endian uint32, as lz4.block expects
+        _check_declared_size('lz4', int.from_bytes(payload[:4], 'little'), max_size)
+        output = lz4.block.decompress(payload)
+    elif algorithm_id == 4:
+        import zstandard
+        _check_declared_size('zstd', zstandard.frame_content_size(payload), max_size)
+        output = zstandard.ZstdDecompressor().decompress(payload, max_output_size=max_size)
+    elif algorithm_id == 5:
+        import snappy
+        _check_declared_size('snappy', _snappy_declared_size(payload), max_size)
+        output = snappy.uncompress(payload)
+    else:
+        raise ValueError('Unknown compression algorithm id %d' % algorithm_id)
+    if len(output) > max_size:
+        raise ValueError('Decompressed size exceeds maximum %d' % max_size)
+    return output
+
+
+def _check_declared_size(algorithm, size, max_size):
+    if size > max_size:
+        raise ValueError('Declared %s size %d exceeds maximum %d' % (algorithm, size, max_size))
+
+
+def _snappy_declared_size(payload):
+    size = 0
+    for i, byte in enumerate(payload[:5]):
+        size |= (byte & 0x7F) << (7 * i)
+        if not byte & 0x80:
+            return size
+    raise ValueError('Invalid snappy length prefix')
+
+
 class BinaryCodec:
-    def __init__(self, format_type='messagepack', fallback_json=True):
+    def __init__(self, format_type='messagepack', fallback_json=True, max_size=10 * 1024 * 1024, keyring=None):
         self.format_type = format_type
         self.fallback_json = fallback_json
+        self.max_size = max_size  # Largest payload decompression may produce, as in the TypeScript codec
+        self.keyring = keyring    # From load_keyring(), for reading encrypted payloads
         
     def encode(self, data):
         try:
@@ -16,12 +117,28 @@ class BinaryCodec:
             raise
             
     def decode(self, binary_data, schema=None):
+        # An enveloped payload names its own format, so it never falls back to JSON
+        envelope = read_envelope(binary_data)
+        if envelope:
+            format_type, flags, payload = envelope
+            if flags & ~(FLAG_COMPRESSION_MASK | FLAG_ENCRYPTED | FLAG_SIGNED):
+                raise ValueError('Unsupported envelope flags 0x%02x' % flags)
+            if flags & (FLAG_ENCRYPTED | FLAG_SIGNED):
+                payload = open_sealed(binary_data, flags, payload, self.keyring)
+            if flags & FLAG_COMPRESSION_MASK:
+                payload = decompress(flags & FLAG_COMPRESSION_MASK, payload, self.max_size)
+            return self._decode_as(format_type, payload, schema)
+
         try:
-            if self.format_type == 'messagepack':
-                return msgpack.unpackb(binary_data, raw=False)
-            elif self.format_type == 'protobuf':
-                return self._decode_protobuf(binary_data, schema)
+            return self._decode_as(self.format_type, binary_data, schema)
         except Exception as e:
             if self.fallback_json:
                 return json.loads(binary_data.decode('utf-8'))
             raise
+
+    def _decode_as(self, format_type, binary_data, schema):
+        if format_type == 'messagepack':
+            return msgpack.unpackb(binary_data, raw=False)
+        elif format_type == 'protobuf':
+            return self._decode_protobuf(binary_data, schema)
+        return json.loads(binary_data.decode('utf-8'))
@@ -1,5 +1,16 @@
 // shared-libs/serialization/binary-codec.ts
-import * as msgpack from 'msgpack-lite';
+import { MetricsSink } from '../metrics/metrics';
+import { MetricLabels, SerializationInstruments } from '../metrics/serialization-instruments';
+import { RegisteredSchema, SchemaNotFoundError, SchemaRegistryClient } from '../schema-registry/schema-registry';
+import { decodeMessage, encodeMessage, ProtobufSchemas, ProtobufSchemaOptions } from './protobuf-schemas';
+import { jsonReplacer, MessagePackExtensions } from './msgpack-extensions';
+import { CodecStreamOptions, DecodeStream, decodeValues, EncodeStream, encodeValues } from './codec-stream';
+import { compareDecoded } from './format-policy';
+import { Compression, CompressionAlgorithm, CompressionOptions } from './compression';
+import { PayloadProtection, ProtectionError, ProtectionOptions, readUnverified } from './payload-protection';
+import { SchemaResolver } from './schema-resolver';
+import { CodecValidationError, ValidationDirection, validateJsonSchema, validateProtobuf } from './schema-validator';
+import { Envelope, FLAG_COMPRESSION_MASK, readEnvelope, writeEnvelope } from './wire-envelope';
 
 export type SerializationFormat = 'messagepack' | 'protobuf' | 'json';
 
@@ -7,92 +18,457 @@ export interface BinaryCodecOptions {
     formatType?: SerializationFormat;
     fallbackJson?: boolean;
     maxSize?: number;
+    envelope?: boolean; // Prefix payloads with a self-describing header (see wire-envelope.ts)
+    protobuf?: ProtobufCodecOptions;
+    registry?: SchemaRegistryClient; // Resolve writer/reader schemas by subject
+    validate?: boolean | ValidationDirection; // Check values against the registered schema (true = both ways)
+    compression?: CompressionOptions; // Requires the envelope, which records the algorithm
+    protection?: ProtectionOptions;   // Encryption and signing after compression; see payload-protection.ts
+    metrics?: MetricsSink;
+    extensions?: MessagePackExtensions; // Share one registry with custom classes between codecs
+}
+
+export interface EncodeCallOptions {
+    validate?: boolean; // Per-call override, e.g. to re-send a payload a `log` policy let through
+    labels?: MetricLabels;
+    format?: SerializationFormat;       // Overrides formatType; needs the envelope so decoders can tell
+    shadowFormat?: SerializationFormat; // Also encode in this format, off the hot path, and compare the decodes
+}
+
+export interface DecodeCallOptions {
+    labels?: MetricLabels;
+    format?: SerializationFormat; // Read headerless payloads as this instead of formatType, with no JSON fallback
+}
+
+export interface StreamCallOptions {
+    messageType?: string;   // Protobuf type, defaults to options.protobuf.messageType
+    maxStreamSize?: number; // Total bytes; each value is still held to maxSize
+}
+
+export interface ProtobufCodecOptions extends ProtobufSchemaOptions {
+    messageType?: string; // Fully-qualified type used when a call doesn't name one
 }
 
 export interface SerializationMetrics {
-    originalSize: number;
-    compressedSize: number;
+    originalSize: number;   // JSON size of the value, the pre-migration baseline
+    encodedSize: number;    // Serialized size before compression
+    compressedSize: number; // Bytes on the wire
     compressionRatio: number;
+    compression: CompressionAlgorithm | 'none';
     serializationTimeMs: number;
 }
 
 export class BinaryCodec {
-    private formatType: SerializationFormat;
+    readonly formatType: SerializationFormat;
     private fallbackJson: boolean;
     private maxSize: number;
+    private envelope: boolean;
+    private protobufSchemas?: ProtobufSchemas;
+    private messageType?: string;
+    private resolver?: SchemaResolver;
+    private validateOn: Set<ValidationDirection>;
+    private compression?: Compression;
+    private decompressor?: Compression;
+    private protection?: PayloadProtection;
+    private instruments?: SerializationInstruments;
+    private extensions: MessagePackExtensions;
 
     constructor(options: BinaryCodecOptions = {}) {
         this.formatType = options.formatType || 'messagepack';
         this.fallbackJson = options.fallbackJson !== false;
         this.maxSize = options.maxSize || 10 * 1024 * 1024; // 10MB default
+        this.envelope = options.envelope === true;
+        this.extensions = options.extensions || new MessagePackExtensions();
+
+        if (options.protobuf) {
+            this.protobufSchemas = new ProtobufSchemas(options.protobuf);
+            this.messageType = options.protobuf.messageType;
+        }
+
+        if (options.registry) {
+            this.resolver = new SchemaResolver(options.registry);
+        }
+
+        const validate = options.validate === true ? ['encode', 'decode'] : options.validate ? [options.validate] : [];
+        this.validateOn = new Set(validate as ValidationDirection[]);
+
+        if (options.compression) {
+            if (!this.envelope) {
+                throw new Error('Compression requires the wire envelope so decoders can tell compressed payloads apart');
+            }
+            this.compression = new Compression(options.compression);
+        }
+
+        if (options.protection) {
+            this.protection = new PayloadProtection(options.protection);
+            if (this.protection.sealsPayload && !this.envelope) {
+                throw new Error('Encryption and signing require the wire envelope, which carries the key ids');
+            }
+        }
+
+        if (options.metrics) {
+            this.instruments = new SerializationInstruments(options.metrics);
+        }
     }
     
-    async encode<T>(data: T): Promise<{ buffer: Buffer; metrics: SerializationMetrics }> {
-        const startTime = Date.now();
-        const originalSize = Buffer.byteLength(JSON.stringify(data));
-        
-        try {
-            let buffer: Buffer;
-            
-            if (this.formatType === 'messagepack') {
-                buffer = msgpack.encode(data);
-            } else if (this.formatType === 'protobuf') {
-                buffer = await this.encodeProtobuf(data);
-            } else {
-                buffer = Buffer.from(JSON.stringify(data), 'utf-8');
-            }
-            
-            if (buffer.length > this.maxSize) {
-                throw new Error(`Encoded size ${buffer.length} exceeds maximum ${this.maxSize}`);
+    // `schema` names the registry subject when a registry is configured, otherwise the Protobuf message type
+    async encode<T>(
+        data: T,
+        schema?: string,
+        callOptions: EncodeCallOptions = {}
+    ): Promise<{ buffer: Buffer; metrics: SerializationMetrics }> {
+        const startTime = performance.now();
+        const labels = callOptions.labels || {};
+        const format = callOptions.format || this.formatType;
+        const originalSize = Buffer.byteLength(JSON.stringify(data, jsonReplacer));
+
+        if (format !== this.formatType && !this.envelope) {
+            throw new Error('Per-call formats require the wire envelope so decoders can tell payloads apart');
+        }
+
+        // Before anything can fall back, so no path writes these fields in the clear
+        const value = this.protection ? this.protection.encryptFields(data) : data;
+
+        // Outside the fallback too: an unreachable registry, a missing subject or a schema for
+        // another format are deployment problems, and JSON would hide them behind unchecked data
+        const writer = await this.schemaFor(schema, format);
+        if (writer) {
+            if (callOptions.validate ?? this.validateOn.has('encode')) {
+                this.validate('encode', data, writer);
             }
+        }
+
+        try {
+            const payload = await this.serialize(format, value, schema, writer);
+            const { buffer, compression } = await this.wrap(format, payload, writer);
+            this.assertWithinMaxSize(buffer);
             
             const metrics: SerializationMetrics = {
                 originalSize,
+                encodedSize: payload.length,
                 compressedSize: buffer.length,
                 compressionRatio: originalSize / buffer.length,
-                serializationTimeMs: Date.now() - startTime
+                compression,
+                serializationTimeMs: performance.now() - startTime
             };
             
+            this.recordEncode(labels, format, metrics);
+            if (callOptions.shadowFormat && callOptions.shadowFormat !== format) {
+                setImmediate(() => void this.compareShadow(data, format, callOptions.shadowFormat!, schema, labels));
+            }
             return { buffer, metrics };
         } catch (error) {
-            if (this.fallbackJson) {
-                const buffer = Buffer.from(JSON.stringify(data), 'utf-8');
+            // Invalid data is a caller bug and a missing key a deployment one, not format problems; JSON won't fix them
+            if (this.fallbackJson && !(error instanceof CodecValidationError || error instanceof ProtectionError)) {
+                // The envelope marks this as JSON so decoders don't have to guess
+                const payload = Buffer.from(JSON.stringify(value, jsonReplacer), 'utf-8');
+                const { buffer, compression } = await this.wrap('json', payload);
+                // JSON is rarely smaller, but the limit holds whichever format ends up on the wire
+                this.assertWithinMaxSize(buffer);
                 const metrics: SerializationMetrics = {
                     originalSize,
+                    encodedSize: payload.length,
                     compressedSize: buffer.length,
-                    compressionRatio: 1,
-                    serializationTimeMs: Date.now() - startTime
+                    compressionRatio: originalSize / buffer.length,
+                    compression,
+                    serializationTimeMs: performance.now() - startTime
                 };
+                this.instruments?.fellBack(labels, format, 'encode');
+                this.recordEncode(labels, 'json', metrics);
                 return { buffer, metrics };
             }
             throw error;
         }
     }
             
-    async decode<T>(buffer: Buffer, schema?: any): Promise<T> {
+    async decode<T>(buffer: Buffer, schema?: string, callOptions: DecodeCallOptions = {}): Promise<T> {
+        const startTime = performance.now();
+        const labels = callOptions.labels || {};
+        const format = readEnvelope(buffer)?.header.format || callOptions.format || this.formatType;
+
         try {
-            if (this.formatType === 'messagepack') {
-                return msgpack.decode(buffer) as T;
-            } else if (this.formatType === 'protobuf') {
-                return await this.decodeProtobuf<T>(buffer, schema);
-            } else {
-                return JSON.parse(buffer.toString('utf-8')) as T;
-            }
+            const value = await this.decodeBuffer<T>(buffer, schema, labels, callOptions.format);
+            this.instruments?.decoded(labels, format, performance.now() - startTime, buffer.length);
+            return value;
+        } catch (error) {
+            this.instruments?.decodeFailed(labels, format, error);
+            throw error;
+        }
+    }
+
+    detectFormat(buffer: Buffer): SerializationFormat {
+        const envelope = readEnvelope(buffer);
+        return envelope ? envelope.header.format : this.formatType;
+    }
+
+    // Streams carry bare values: no envelope, compression or registry lookups, so both ends
+    // must agree on the format and message type. Pipe through zlib to compress a whole stream.
+    async createEncodeStream(callOptions: StreamCallOptions = {}): Promise<EncodeStream> {
+        return new EncodeStream(await this.streamOptions(callOptions));
+    }
+
+    async createDecodeStream<T>(callOptions: StreamCallOptions = {}): Promise<DecodeStream<T>> {
+        return new DecodeStream<T>(await this.streamOptions(callOptions));
+    }
+
+    async *encodeIterable<T>(
+        source: AsyncIterable<T> | Iterable<T>,
+        callOptions: StreamCallOptions = {}
+    ): AsyncGenerator<Buffer> {
+        yield* encodeValues(source, await this.streamOptions(callOptions));
+    }
+
+    async *decodeIterable<T>(
+        source: AsyncIterable<Buffer> | Iterable<Buffer>,
+        callOptions: StreamCallOptions = {}
+    ): AsyncGenerator<T> {
+        yield* decodeValues<T>(source, await this.streamOptions(callOptions));
+    }
+
+    private async decodeBuffer<T>(
+        buffer: Buffer,
+        schema: string | undefined,
+        labels: MetricLabels,
+        legacyFormat?: SerializationFormat
+    ): Promise<T> {
+        const envelope = readEnvelope(buffer);
+        if (envelope) {
+            const { format, schemaId } = envelope.header;
+            const writer = schemaId && this.resolver ? await this.resolver.getById(schemaId) : undefined;
+            const reader = (await this.schemaFor(schema, format)) || writer;
+            const payload = await this.unwrap(envelope, buffer);
+            const value = this.decryptFields(await this.deserialize<T>(format, payload, schema, reader));
+            return this.checkDecoded(this.applyReaderSchema(value, writer, reader), reader);
+        }
+
+        // Legacy headerless payload: trust the configured format, then JSON
+        this.protection?.checkUnsigned();
+        const reader = await this.schemaFor(schema, legacyFormat || this.formatType); // Registry errors aren't format problems either
+        try {
+            const value = this.decryptFields(await this.deserialize<T>(legacyFormat || this.formatType, buffer, schema, reader));
+            return this.checkDecoded(this.applyReaderSchema(value, undefined, reader), reader);
         } catch (error) {
-            if (this.fallbackJson) {
-                return JSON.parse(buffer.toString('utf-8')) as T;
+            if (this.fallbackJson && !legacyFormat && !(error instanceof CodecValidationError || error instanceof ProtectionError)) {
+                this.instruments?.fellBack(labels, this.formatType, 'decode');
+                return this.decryptFields(JSON.parse(buffer.toString('utf-8')) as T);
             }
             throw error;
         }
     }
 
-    private async encodeProtobuf<T>(data: T): Promise<Buffer> {
-        // Protobuf encoding implementation
-        throw new Error('Protobuf encoding not yet implemented');
+    private async streamOptions(callOptions: StreamCallOptions): Promise<CodecStreamOptions> {
+        if (this.formatType === 'json') {
+            throw new Error('Streaming supports the messagepack and protobuf formats');
+        }
+
+        const messageType = this.formatType === 'protobuf'
+            ? await this.requireSchemas().resolve(this.resolveMessageType(callOptions.messageType))
+            : undefined;
+
+        return {
+            format: this.formatType,
+            messageType,
+            extensions: this.extensions,
+            maxMessageSize: this.maxSize,
+            maxStreamSize: callOptions.maxStreamSize
+        };
+    }
+
+    // Round-trips the value through both formats; any difference in what comes back is a
+    // field the new format would lose or change. Only reported, never thrown.
+    private async compareShadow<T>(
+        data: T,
+        format: SerializationFormat,
+        shadowFormat: SerializationFormat,
+        schema: string | undefined,
+        labels: MetricLabels
+    ): Promise<void> {
+        try {
+            const [primary, shadow] = await Promise.all([format, shadowFormat].map(async candidate => {
+                // The shadow format may have no schema registered yet; it then uses the default type
+                const writer = await this.schemaFor(schema, candidate).catch(error => {
+                    if (error instanceof SchemaNotFoundError) return undefined;
+                    throw error;
+                });
+                const messageType = this.resolver ? undefined : schema;
+                const payload = await this.serialize(candidate, data, messageType, writer);
+                return await this.deserialize(candidate, payload, messageType, writer);
+            }));
+
+            const differences = compareDecoded(primary, shadow);
+            this.instruments?.shadowCompared(labels, format, shadowFormat, differences.length ? 'mismatch' : 'match');
+            if (differences.length > 0) {
+                console.warn(`Shadow ${shadowFormat} decode differs from ${format} for ${labels.target || 'value'}:`, differences);
+            }
+        } catch (error) {
+            this.instruments?.shadowCompared(labels, format, shadowFormat, 'error');
+            console.warn(`Shadow ${shadowFormat} round trip failed for ${labels.target || 'value'}:`, error);
+        }
+    }
+
+    private assertWithinMaxSize(buffer: Buffer): void {
+        if (buffer.length > this.maxSize) {
+            throw new Error(`Encoded size ${buffer.length} exceeds maximum ${this.maxSize}`);
+        }
+    }
+
+    private recordEncode(labels: MetricLabels, format: SerializationFormat, metrics: SerializationMetrics): void {
+        this.instruments?.encoded(labels, {
+            format,
+            durationMs: metrics.serializationTimeMs,
+            originalSize: metrics.originalSize,
+            encodedSize: metrics.encodedSize,
+            wireSize: metrics.compressedSize
+        });
+    }
+
+    private async serialize<T>(
+        format: SerializationFormat,
+        data: T,
+        schema?: string,
+        writer?: RegisteredSchema
+    ): Promise<Buffer> {
+        if (format === 'messagepack') {
+            return this.extensions.encode(data);
+        } else if (format === 'protobuf') {
+            return writer
+                ? encodeMessage(this.resolver!.protobufType(writer, this.messageType), data)
+                : await this.encodeProtobuf(data, schema);
+        } else {
+            return Buffer.from(JSON.stringify(data, jsonReplacer), 'utf-8');
+        }
+    }
+
+    private async deserialize<T>(
+        format: SerializationFormat,
+        buffer: Buffer,
+        schema?: string,
+        reader?: RegisteredSchema
+    ): Promise<T> {
+        if (format === 'messagepack') {
+            return this.extensions.decode<T>(buffer);
+        } else if (format === 'protobuf') {
+            // Protobuf resolves schema evolution itself when parsed with the reader's type
+            return reader
+                ? decodeMessage<T>(this.resolver!.protobufType(reader, this.messageType), buffer)
+                : await this.decodeProtobuf<T>(buffer, schema);
+        } else {
+            return JSON.parse(buffer.toString('utf-8')) as T;
+        }
+    }
+
+    private async registeredSchema(subject?: string): Promise<RegisteredSchema | undefined> {
+        return this.resolver && subject ? await this.resolver.getLatest(subject) : undefined;
+    }
+
+    // A subject holds one schema type, so a target carrying Protobuf next to JSON or MessagePack
+    // (while a format policy moves it over, say) has the second type's schema registered under
+    // `<subject>-protobuf` or `<subject>-json`
+    private async schemaFor(subject: string | undefined, format: SerializationFormat): Promise<RegisteredSchema | undefined> {
+        const schema = await this.registeredSchema(subject);
+        if (!schema || describes(schema, format)) {
+            return schema;
+        }
+        const sibling = (await this.registeredSchema(`${subject}-${format === 'protobuf' ? 'protobuf' : 'json'}`))!;
+        assertSchemaDescribes(sibling, format);
+        return sibling;
+    }
+
+    private applyReaderSchema<T>(value: T, writer?: RegisteredSchema, reader?: RegisteredSchema): T {
+        if (!reader || reader.schemaType !== 'JSON' || reader.id === writer?.id) {
+            return value;
+        }
+        return this.resolver!.applyReaderDefaults(value, reader);
+    }
+
+    private checkDecoded<T>(value: T, reader?: RegisteredSchema): T {
+        if (reader && this.validateOn.has('decode')) {
+            this.validate('decode', value, reader);
+        }
+        return value;
+    }
+
+    private validate(direction: ValidationDirection, value: unknown, schema: RegisteredSchema): void {
+        const issues = schema.schemaType === 'PROTOBUF'
+            ? validateProtobuf(value, this.resolver!.protobufType(schema, this.messageType))
+            : validateJsonSchema(value, this.resolver!.jsonSchema(schema));
+
+        if (issues.length > 0) {
+            throw new CodecValidationError(direction, issues, value, schema.id);
+        }
+    }
+
+    private async wrap(
+        format: SerializationFormat,
+        payload: Buffer,
+        writer?: RegisteredSchema
+    ): Promise<{ buffer: Buffer; compression: CompressionAlgorithm | 'none' }> {
+        if (!this.envelope) {
+            return { buffer: payload, compression: 'none' };
+        }
+
+        const compressed = this.compression
+            ? await this.compression.compress(payload)
+            : { payload, algorithmId: 0 };
+
+        const header = {
+            format,
+            flags: compressed.algorithmId,
+            schemaId: writer ? writer.id : 0,
+            schemaVersion: writer ? writer.version : 0
+        };
+        const buffer = this.protection
+            ? this.protection.seal(header, compressed.payload)
+            : writeEnvelope(header, compressed.payload);
+
+        return { buffer, compression: compressed.algorithmId ? this.compression!.algorithm : 'none' };
+    }
+
+    private async unwrap(envelope: Envelope, buffer: Buffer): Promise<Buffer> {
+        const payload = this.protection ? this.protection.open(envelope, buffer) : readUnverified(envelope);
+        const algorithmId = envelope.header.flags & FLAG_COMPRESSION_MASK;
+        if (algorithmId === 0) {
+            return payload;
+        }
+        // A codec without compression configured can still read compressed payloads
+        const compression = this.compression || (this.decompressor ??= new Compression({ algorithm: 'gzip' }));
+        return await compression.decompress(payload, algorithmId, this.maxSize);
     }
 
-    private async decodeProtobuf<T>(buffer: Buffer, schema?: any): Promise<T> {
-        // Protobuf decoding implementation
-        throw new Error('Protobuf decoding not yet implemented');
+    private decryptFields<T>(value: T): T {
+        return this.protection ? this.protection.decryptFields(value) : value;
+    }
+
+    private async encodeProtobuf<T>(data: T, schema?: string): Promise<Buffer> {
+        return await this.requireSchemas().encode(data, this.resolveMessageType(schema));
+    }
+
+    private async decodeProtobuf<T>(buffer: Buffer, schema?: string): Promise<T> {
+        return await this.requireSchemas().decode<T>(buffer, this.resolveMessageType(schema));
+    }
+
+    private requireSchemas(): ProtobufSchemas {
+        if (!this.protobufSchemas) {
+            throw new Error('Protobuf format requires .proto files or a descriptor in options.protobuf');
+        }
+        return this.protobufSchemas;
+    }
+
+    private resolveMessageType(schema?: string): string {
+        const messageType = schema || this.messageType;
+        if (!messageType) {
+            throw new Error('Protobuf format requires a message type');
+        }
+        return messageType;
     }
 }
+
+function describes(schema: RegisteredSchema, format: SerializationFormat): boolean {
+    return schema.schemaType === (format === 'protobuf' ? 'PROTOBUF' : 'JSON');
+}
+
+function assertSchemaDescribes(schema: RegisteredSchema, format: SerializationFormat): void {
+    if (!describes(schema, format)) {
+        throw new Error(`Schema ${schema.id} (${schema.subject}) is ${schema.schemaType} and cannot describe ${format} payloads`);
+    }
+}
\ No newline at end of file
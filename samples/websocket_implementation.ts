@@ -1,68 +1,486 @@
 // websocket-service/binary_websocket.ts
-import * as msgpack from 'msgpack-lite';
-import { WebSocket } from 'ws';
+import { randomUUID } from 'crypto';
+import { IncomingMessage, Server } from 'http';
+import * as path from 'path';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import { Counter } from '../shared-libs/metrics/metrics';
+import { MetricLabels } from '../shared-libs/metrics/serialization-instruments';
+import { BinaryCodec, BinaryCodecOptions, SerializationFormat } from '../shared-libs/serialization/binary-codec';
+import { FormatDecision, FormatPolicy } from '../shared-libs/serialization/format-policy';
+import { MessagePackExtensions } from '../shared-libs/serialization/msgpack-extensions';
+import { ProtobufSchemas } from '../shared-libs/serialization/protobuf-schemas';
+import { CodecValidationError } from '../shared-libs/serialization/schema-validator';
 
-interface BinaryWebSocketOptions {
-    formatType?: 'messagepack' | 'protobuf' | 'json';
-    fallbackJson?: boolean;
-    maxFrameSize?: number;
+// Codec settings are shared by every format; the registry isn't, as frames carry no subject
+interface BinaryWebSocketOptions extends Omit<BinaryCodecOptions, 'maxSize' | 'registry' | 'validate'> {
+    maxFrameSize?: number; // Largest message either way, before fragmentation (default 1MB)
+    fragmentSize?: number; // Outbound messages above this go out as continuation frames (default 64KB)
+    path?: string; // Only accept upgrades on this path when attached to a shared HTTP server
+    heartbeatIntervalMs?: number; // Clients that miss a whole interval of pings are dropped (default 30s)
+    authorize?: (topic: string, request: IncomingMessage) => boolean; // Default allows every topic
+    formatPolicy?: FormatPolicy; // Rules match broadcast topics; only clients on the default format are moved
 }
 
-interface SerializedMessage {
-    data: Buffer | string;
+// Offered by clients in Sec-WebSocket-Protocol, most preferred first. Binary frames hold the
+// bare encoding, so any MessagePack or Protobuf library reads them; only a server configured
+// with compression, whole-payload encryption or signing (or `envelope: true`) prefixes them
+// with the wire envelope header (first byte 0xC1), which its clients must then strip.
+export const SUBPROTOCOLS: Record<string, SerializationFormat> = {
+    'msgpack.v1': 'messagepack',
+    'protobuf.v1': 'protobuf',
+    'json': 'json'
+};
+
+// Values accepted for the `format` handshake query parameter, for clients that can't set subprotocols
+const QUERY_FORMATS: Record<string, SerializationFormat> = {
+    msgpack: 'messagepack',
+    messagepack: 'messagepack',
+    protobuf: 'protobuf',
+    json: 'json'
+};
+
+const FRAME_PROTO = path.resolve(__dirname, '../shared-libs/schemas/websocket_frames.proto');
+
+export type NegotiatedVia = 'subprotocol' | 'query' | 'default';
+
+export interface WebSocketClient {
+    id: string;
+    socket: WebSocket;
+    request: IncomingMessage;
+    format: SerializationFormat;
+    negotiatedVia: NegotiatedVia;
+    topics: Set<string>;
+    connectedAt: Date;
+    isAlive: boolean;
+}
+
+// Clients manage subscriptions with these; anything else goes to onClientMessage handlers
+interface ControlMessage {
+    type: 'subscribe' | 'unsubscribe';
+    topics: string[];
+}
+
+export interface TopicEvent<T = any> {
+    type: 'event';
+    topic: string; // e.g. order:{id} or customer:{id}
+    data: T;
+}
+
+export type WebSocketErrorCode = 'DECODE_FAILED' | 'VALIDATION_FAILED' | 'HANDLER_FAILED';
+
+export interface ErrorFrame {
+    type: 'error';
+    code: WebSocketErrorCode;
+    message: string;
+}
+
+export interface WebSocketStats {
+    connections: number;
+    formats: Record<SerializationFormat, number>;
+    negotiatedVia: Record<NegotiatedVia, number>;
+}
+
+export type ClientMessageHandler = (client: WebSocketClient, message: any) => void | Promise<void>;
+
+interface Frame {
+    data: Buffer;
     isBinary: boolean;
 }
 
+const METRIC_LABELS = { component: 'websocket' };
+
 export class BinaryWebSocketServer {
-    private formatType: string;
-    private fallbackJson: boolean;
+    private formatType: SerializationFormat;
+    private codecOptions: BinaryCodecOptions;
+    private codecs = new Map<SerializationFormat, BinaryCodec>();
+    private supportedFormats: Set<SerializationFormat>;
+    private frameSchemas?: ProtobufSchemas;
     private maxFrameSize: number;
+    private fragmentSize: number;
+    private path?: string;
+    private heartbeatIntervalMs: number;
+    private authorize: (topic: string, request: IncomingMessage) => boolean;
+    private formatPolicy?: FormatPolicy;
+    private wss?: WebSocketServer;
+    private heartbeat?: NodeJS.Timeout;
+    private clients = new Map<string, WebSocketClient>();
+    private clientsBySocket = new WeakMap<WebSocket, WebSocketClient>();
+    private subscribers = new Map<string, Set<WebSocketClient>>();
+    private handlers: ClientMessageHandler[] = [];
+    private connectionsTotal?: Counter;
 
     constructor(options: BinaryWebSocketOptions = {}) {
-        this.formatType = options.formatType || 'messagepack';
-        this.fallbackJson = options.fallbackJson !== false;
-        this.maxFrameSize = options.maxFrameSize || 1048576; // 1MB default
+        const {
+            maxFrameSize, fragmentSize, path: upgradePath, heartbeatIntervalMs, authorize, formatPolicy,
+            ...codecOptions
+        } = options;
+
+        this.maxFrameSize = maxFrameSize || 1048576; // 1MB default
+        this.fragmentSize = fragmentSize || 65536;
+        this.path = upgradePath;
+        this.heartbeatIntervalMs = heartbeatIntervalMs || 30000;
+        this.authorize = authorize || (() => true);
+        this.formatPolicy = formatPolicy;
+
+        // One extension registry across the per-format codecs, so custom classes register once.
+        // The envelope is on only when asked for or needed to name the compression or keys.
+        const { compression, protection } = codecOptions;
+        this.codecOptions = {
+            ...codecOptions,
+            envelope: codecOptions.envelope ?? Boolean(compression || protection?.encrypt || protection?.sign || protection?.requireSigned),
+            extensions: codecOptions.extensions || new MessagePackExtensions()
+        };
+
+        this.supportedFormats = new Set<SerializationFormat>(['messagepack', 'json']);
+        if (codecOptions.protobuf) {
+            this.supportedFormats.add('protobuf');
+            this.frameSchemas = new ProtobufSchemas({ protoFiles: [FRAME_PROTO] });
+        }
+        // Without schemas Protobuf can't be produced, which has always meant JSON
+        const formatType = codecOptions.formatType || 'messagepack';
+        this.formatType = this.supportedFormats.has(formatType) ? formatType : 'json';
+
+        if (codecOptions.metrics) {
+            this.connectionsTotal = codecOptions.metrics.counter(
+                'websocket_connections_total', 'WebSocket connections accepted, by negotiated format');
+        }
     }
-    
-    send<T>(ws: WebSocket, data: T): void {
-        try {
-            const serialized = this.serialize(data);
-            if (serialized.isBinary) {
-                ws.send(serialized.data, { binary: true });
-            } else {
-                ws.send(serialized.data);
+
+    // Shares the HTTP server's port; upgrades on other paths are left for other handlers
+    attach(server: Server): void {
+        if (this.wss) {
+            throw new Error('WebSocket server is already attached');
+        }
+
+        this.wss = new WebSocketServer({
+            server,
+            path: this.path,
+            maxPayload: this.maxFrameSize,
+            handleProtocols: protocols => this.selectSubprotocol(protocols)
+        });
+        this.wss.on('connection', (socket, request) => this.handleConnection(socket, request));
+
+        this.heartbeat = setInterval(() => this.checkConnections(), this.heartbeatIntervalMs);
+        this.heartbeat.unref();
+    }
+
+    async close(): Promise<void> {
+        clearInterval(this.heartbeat);
+        for (const client of this.clients.values()) {
+            client.socket.close(1001, 'Server shutting down');
+        }
+        if (this.wss) {
+            await new Promise<void>(resolve => this.wss!.close(() => resolve()));
+            this.wss = undefined;
+        }
+    }
+
+    onClientMessage(handler: ClientMessageHandler): void {
+        this.handlers.push(handler);
+    }
+
+    get connectionCount(): number {
+        return this.clients.size;
+    }
+
+    // What connected clients actually negotiated, e.g. to tell when JSON-only browsers are gone
+    stats(): WebSocketStats {
+        const stats: WebSocketStats = {
+            connections: this.clients.size,
+            formats: { messagepack: 0, protobuf: 0, json: 0 },
+            negotiatedVia: { subprotocol: 0, query: 0, default: 0 }
+        };
+        for (const client of this.clients.values()) {
+            stats.formats[client.format]++;
+            stats.negotiatedVia[client.negotiatedVia]++;
+        }
+        return stats;
+    }
+
+    // Encodes the event once per format in use and shares the bytes between subscribers;
+    // returns how many clients it was sent to
+    async broadcast<T>(topic: string, data: T): Promise<number> {
+        const subscribers = this.subscribers.get(topic);
+        if (!subscribers || subscribers.size === 0) {
+            return 0;
+        }
+
+        const labels = { ...METRIC_LABELS, target: topic.split(':')[0] };
+        const frames = new Map<SerializationFormat, Promise<Frame | null>>();
+
+        let sent = 0;
+        for (const client of [...subscribers]) {
+            const { format, shadowFormat } = this.decideFormat(client, topic);
+            let pending = frames.get(format);
+            if (!pending) {
+                pending = this.encodeEvent(topic, data, format, labels, shadowFormat).catch(error => {
+                    console.error(`Failed to encode ${topic} event as ${format}:`, error);
+                    return null;
+                });
+                frames.set(format, pending);
             }
-        } catch (error) {
-            if (this.fallbackJson) {
-                ws.send(JSON.stringify(data));
-            } else {
-                throw error;
+
+            const frame = await pending;
+            if (frame && client.socket.readyState === WebSocket.OPEN) {
+                this.sendFrame(client.socket, frame);
+                sent++;
             }
         }
+        return sent;
     }
-    
-    onMessage<T>(ws: WebSocket, message: Buffer | string): T | null {
+
+    // Sockets this server didn't accept get the server-wide format. send() and onMessage() return
+    // promises now that frames go through BinaryCodec: a caller that relied on the frame being
+    // queued, or the message decoded, by the time the call returned must await it.
+    async send<T>(ws: WebSocket, data: T, labels: MetricLabels = METRIC_LABELS): Promise<void> {
+        const format = this.clientsBySocket.get(ws)?.format || this.formatType;
+        this.sendFrame(ws, await this.encodeFrame(data, format, labels));
+    }
+
+    // Text frames are JSON, binary ones the socket's format; null if the frame can't be decoded
+    async onMessage<T>(ws: WebSocket, message: Buffer | string): Promise<T | null> {
+        const format = Buffer.isBuffer(message) ? this.clientsBySocket.get(ws)?.format || this.formatType : 'json';
         try {
-            if (Buffer.isBuffer(message)) {
-                if (message.length > this.maxFrameSize) {
-                    throw new Error(`Message size ${message.length} exceeds maximum ${this.maxFrameSize}`);
-                }
-                return msgpack.decode(message) as T;
-            } else {
-                return JSON.parse(message.toString()) as T;
-            }
+            return await this.codecFor(format).decode<T>(Buffer.from(message), undefined, { labels: METRIC_LABELS });
         } catch (error) {
             console.error('Failed to decode message:', error);
             return null;
         }
     }
 
-    private serialize<T>(data: T): SerializedMessage {
-        if (this.formatType === 'messagepack') {
-            const binaryData = msgpack.encode(data);
-            return { data: binaryData, isBinary: true };
-        } else {
-            return { data: JSON.stringify(data), isBinary: false };
+    private handleConnection(socket: WebSocket, request: IncomingMessage): void {
+        const { format, negotiatedVia } = this.negotiateFormat(socket, request);
+        const client: WebSocketClient = {
+            id: randomUUID(),
+            socket,
+            request,
+            format,
+            negotiatedVia,
+            topics: new Set(),
+            connectedAt: new Date(),
+            isAlive: true
+        };
+        this.clients.set(client.id, client);
+        this.clientsBySocket.set(socket, client);
+        this.connectionsTotal?.inc({ format, via: negotiatedVia });
+
+        socket.on('pong', () => {
+            client.isAlive = true;
+        });
+        socket.on('message', (data: RawData, isBinary: boolean) => {
+            this.handleClientMessage(client, data as Buffer, isBinary).catch(error => {
+                console.error(`WebSocket client ${client.id} message handling failed:`, error);
+            });
+        });
+        socket.on('close', () => this.removeClient(client));
+        socket.on('error', error => {
+            console.error(`WebSocket client ${client.id} error:`, error);
+            socket.terminate();
+        });
+    }
+
+    // The subprotocol wins (ws has already echoed it back), then ?format=, then the server default
+    private negotiateFormat(
+        socket: WebSocket,
+        request: IncomingMessage
+    ): { format: SerializationFormat; negotiatedVia: NegotiatedVia } {
+        if (socket.protocol) {
+            return { format: SUBPROTOCOLS[socket.protocol], negotiatedVia: 'subprotocol' };
         }
+
+        const requested = new URL(request.url || '/', 'http://localhost').searchParams.get('format');
+        const format = requested ? QUERY_FORMATS[requested.toLowerCase()] : undefined;
+        if (format && this.supportedFormats.has(format)) {
+            return { format, negotiatedVia: 'query' };
+        }
+        return { format: this.formatType, negotiatedVia: 'default' };
     }
+
+    // Returning false accepts the connection without a subprotocol, which browsers that
+    // offered some treat as a failed handshake
+    private selectSubprotocol(protocols: Set<string>): string | false {
+        for (const protocol of protocols) {
+            const format = SUBPROTOCOLS[protocol];
+            if (format && this.supportedFormats.has(format)) {
+                return protocol;
+            }
+        }
+        return false;
+    }
+
+    private async handleClientMessage(client: WebSocketClient, data: Buffer, isBinary: boolean): Promise<void> {
+        let message: any;
+        try {
+            // Text frames are JSON whatever the connection negotiated
+            const codec = this.codecFor(isBinary ? client.format : 'json');
+            message = await codec.decode(data, undefined, { labels: METRIC_LABELS });
+        } catch (error) {
+            const code = error instanceof CodecValidationError ? 'VALIDATION_FAILED' : 'DECODE_FAILED';
+            await this.sendError(client, code, error instanceof Error ? error.message : String(error));
+            return;
+        }
+
+        if (isControlMessage(message)) {
+            const topics = message.type === 'subscribe'
+                ? message.topics.filter(topic => this.subscribe(client, topic))
+                : message.topics.filter(topic => this.unsubscribe(client, topic));
+            await this.sendControl(client, { type: message.type === 'subscribe' ? 'subscribed' : 'unsubscribed', topics });
+            return;
+        }
+
+        try {
+            for (const handler of this.handlers) {
+                await handler(client, message);
+            }
+        } catch (error) {
+            console.error(`WebSocket message handler failed for client ${client.id}:`, error);
+            // Handler internals stay server-side
+            await this.sendError(client, 'HANDLER_FAILED', 'Message handler failed');
+        }
+    }
+
+    private async sendError(client: WebSocketClient, code: WebSocketErrorCode, message: string): Promise<void> {
+        const frame: ErrorFrame = { type: 'error', code, message };
+        await this.sendControl(client, frame);
+    }
+
+    // Protobuf clients can't decode arbitrary objects, so their control frames are JSON text
+    private async sendControl(client: WebSocketClient, data: object): Promise<void> {
+        if (client.socket.readyState !== WebSocket.OPEN) return;
+        const format = client.format === 'protobuf' ? 'json' : client.format;
+        this.sendFrame(client.socket, await this.encodeFrame(data, format, METRIC_LABELS));
+    }
+
+    private subscribe(client: WebSocketClient, topic: string): boolean {
+        if (!this.authorize(topic, client.request)) {
+            return false;
+        }
+
+        let subscribers = this.subscribers.get(topic);
+        if (!subscribers) {
+            subscribers = new Set();
+            this.subscribers.set(topic, subscribers);
+        }
+        subscribers.add(client);
+        client.topics.add(topic);
+        return true;
+    }
+
+    private unsubscribe(client: WebSocketClient, topic: string): boolean {
+        const subscribers = this.subscribers.get(topic);
+        if (!subscribers || !subscribers.delete(client)) {
+            return false;
+        }
+        if (subscribers.size === 0) {
+            this.subscribers.delete(topic);
+        }
+        client.topics.delete(topic);
+        return true;
+    }
+
+    private removeClient(client: WebSocketClient): void {
+        for (const topic of [...client.topics]) {
+            this.unsubscribe(client, topic);
+        }
+        this.clients.delete(client.id);
+    }
+
+    // Connections that didn't answer the previous ping are dead (e.g. a laptop lid closed mid-session)
+    private checkConnections(): void {
+        for (const client of this.clients.values()) {
+            if (!client.isAlive) {
+                client.socket.terminate();
+                this.removeClient(client);
+                continue;
+            }
+            client.isAlive = false;
+            client.socket.ping();
+        }
+    }
+
+    // A client that asked for a format always gets it. Those left on the default follow the
+    // policy, bucketed by client id, except into Protobuf: its TopicEvent wrapper is only
+    // understood by clients that asked for protobuf.v1, and shadowing it would compare the
+    // bare value against a wrapped event.
+    private decideFormat(client: WebSocketClient, topic: string): FormatDecision {
+        const decision = client.negotiatedVia === 'default'
+            ? this.formatPolicy?.decide('websocket', topic, client.id)
+            : undefined;
+        if (!decision || decision.format === 'protobuf' || !this.supportedFormats.has(decision.format)) {
+            return { format: client.format };
+        }
+        return decision.shadowFormat === 'protobuf' ? { format: decision.format } : decision;
+    }
+
+    private async encodeEvent<T>(
+        topic: string,
+        data: T,
+        format: SerializationFormat,
+        labels: MetricLabels,
+        shadowFormat?: SerializationFormat
+    ): Promise<Frame> {
+        if (format !== 'protobuf') {
+            const event: TopicEvent<T> = { type: 'event', topic, data };
+            return await this.encodeFrame(event, format, labels, shadowFormat);
+        }
+
+        const { buffer } = await this.codecFor('protobuf').encode(data, undefined, { labels });
+        const wrapped = await this.frameSchemas!.encode({ topic, data: buffer }, 'websocket.v1.TopicEvent');
+        if (wrapped.length > this.maxFrameSize) {
+            throw new Error(`Encoded size ${wrapped.length} exceeds maximum ${this.maxFrameSize}`);
+        }
+        return { data: wrapped, isBinary: true };
+    }
+
+    // The codec enforces maxFrameSize on the way out
+    private async encodeFrame<T>(
+        data: T,
+        format: SerializationFormat,
+        labels: MetricLabels,
+        shadowFormat?: SerializationFormat
+    ): Promise<Frame> {
+        const { buffer } = await this.codecFor(format).encode(data, undefined, { labels, shadowFormat });
+        return { data: buffer, isBinary: format !== 'json' };
+    }
+
+    private sendFrame(socket: WebSocket, frame: Frame): void {
+        const { data, isBinary } = frame;
+        if (data.length <= this.fragmentSize) {
+            socket.send(data, { binary: isBinary });
+            return;
+        }
+
+        // ws sends everything after a `fin: false` as continuation frames until `fin: true`
+        for (let offset = 0; offset < data.length; offset += this.fragmentSize) {
+            const end = Math.min(offset + this.fragmentSize, data.length);
+            socket.send(data.subarray(offset, end), { binary: isBinary, fin: end === data.length });
+        }
+    }
+
+    private codecFor(format: SerializationFormat): BinaryCodec {
+        let codec = this.codecs.get(format);
+        if (!codec) {
+            const text = format === 'json';
+            codec = new BinaryCodec({
+                ...this.codecOptions,
+                formatType: format,
+                maxSize: this.maxFrameSize,
+                // JSON goes out as text frames, which can't carry the binary envelope,
+                // so of the protection only field encryption applies to them
+                envelope: text ? false : this.codecOptions.envelope,
+                compression: text ? undefined : this.codecOptions.compression,
+                protection: text && this.codecOptions.protection
+                    ? { keyring: this.codecOptions.protection.keyring, encryptFields: this.codecOptions.protection.encryptFields }
+                    : this.codecOptions.protection
+            });
+            this.codecs.set(format, codec);
+        }
+        return codec;
+    }
+}
+
+function isControlMessage(message: any): message is ControlMessage {
+    return (message?.type === 'subscribe' || message?.type === 'unsubscribe')
+        && Array.isArray(message.topics)
+        && message.topics.every((topic: unknown) => typeof topic === 'string');
 }
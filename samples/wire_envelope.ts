@@ -0,0 +1,74 @@
+// shared-libs/serialization/wire-envelope.ts
+import { SerializationFormat } from './binary-codec';
+
+// 0xC1 is the one byte MessagePack never uses and it can't start valid UTF-8,
+// so a headed payload can't be mistaken for legacy MessagePack or JSON.
+export const ENVELOPE_MAGIC = 0xc1;
+export const ENVELOPE_VERSION = 1;
+
+// magic(1) version(1) format(1) flags(1) schemaId(4) schemaVersion(2)
+export const ENVELOPE_HEADER_SIZE = 10;
+
+const FORMAT_IDS: Record<SerializationFormat, number> = {
+    json: 1,
+    messagepack: 2,
+    protobuf: 3
+};
+
+const FORMATS_BY_ID: Record<number, SerializationFormat> = {
+    1: 'json',
+    2: 'messagepack',
+    3: 'protobuf'
+};
+
+// Low three flag bits hold the compression algorithm id (see compression.ts)
+export const FLAG_COMPRESSION_MASK = 0x07;
+// Set on payloads sealed by payload-protection.ts
+export const FLAG_ENCRYPTED = 0x08;
+export const FLAG_SIGNED = 0x10;
+
+export interface EnvelopeHeader {
+    format: SerializationFormat;
+    flags: number;
+    schemaId: number;      // 0 when the payload isn't tied to a registered schema
+    schemaVersion: number;
+}
+
+export interface Envelope {
+    header: EnvelopeHeader;
+    payload: Buffer;
+}
+
+export function writeEnvelope(header: EnvelopeHeader, payload: Buffer): Buffer {
+    const head = Buffer.alloc(ENVELOPE_HEADER_SIZE);
+    head.writeUInt8(ENVELOPE_MAGIC, 0);
+    head.writeUInt8(ENVELOPE_VERSION, 1);
+    head.writeUInt8(FORMAT_IDS[header.format], 2);
+    head.writeUInt8(header.flags, 3);
+    head.writeUInt32BE(header.schemaId, 4);
+    head.writeUInt16BE(header.schemaVersion, 8);
+    return Buffer.concat([head, payload]);
+}
+
+// Returns null for headerless (legacy) payloads so callers can fall back to their configured format
+export function readEnvelope(buffer: Buffer): Envelope | null {
+    if (buffer.length < ENVELOPE_HEADER_SIZE || buffer[0] !== ENVELOPE_MAGIC) {
+        return null;
+    }
+
+    const version = buffer.readUInt8(1);
+    const format = FORMATS_BY_ID[buffer.readUInt8(2)];
+    if (version !== ENVELOPE_VERSION || !format) {
+        return null;
+    }
+
+    return {
+        header: {
+            format,
+            flags: buffer.readUInt8(3),
+            schemaId: buffer.readUInt32BE(4),
+            schemaVersion: buffer.readUInt16BE(8)
+        },
+        payload: buffer.subarray(ENVELOPE_HEADER_SIZE)
+    };
+}
\ No newline at end of file